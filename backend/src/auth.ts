@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { SupabaseClient, User } from '@supabase/supabase-js';
+
+// Verification of Supabase session access tokens.
+//
+// With SUPABASE_JWT_SECRET set (Project Settings → API → JWT secret), HS256 tokens are verified locally:
+// signature, expiry and audience. Otherwise, or for tokens signed with asymmetric keys, the token is
+// checked by asking Supabase Auth for its user.
+
+const EXPECTED_AUDIENCE = 'authenticated';
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+export class InvalidTokenError extends Error {}
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Returns the token's claims, or throws InvalidTokenError
+function verifyHs256Token(token: string, secret: string): any {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new InvalidTokenError('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  let header;
+  let payload;
+  try {
+    header = decodeSegment(encodedHeader);
+    payload = decodeSegment(encodedPayload);
+  } catch {
+    throw new InvalidTokenError('Malformed token');
+  }
+
+  if (header.alg !== 'HS256') {
+    throw new InvalidTokenError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const expectedSignature = crypto
+    .createHmac('sha256', secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actualSignature = Buffer.from(signature, 'base64url');
+  if (actualSignature.length !== expectedSignature.length || !crypto.timingSafeEqual(actualSignature, expectedSignature)) {
+    throw new InvalidTokenError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new InvalidTokenError('Token is not valid yet');
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(EXPECTED_AUDIENCE)) {
+    throw new InvalidTokenError('Invalid token audience');
+  }
+
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new InvalidTokenError('Token has no subject');
+  }
+
+  return payload;
+}
+
+const isHs256Token = (token: string) => {
+  try {
+    return decodeSegment(token.split('.')[0]).alg === 'HS256';
+  } catch {
+    return false;
+  }
+};
+
+// Resolve the user a session access token belongs to, or throw InvalidTokenError
+export async function verifyAccessToken(token: string, supabase: SupabaseClient): Promise<User> {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+
+  if (secret && isHs256Token(token)) {
+    const claims = verifyHs256Token(token, secret);
+    return {
+      id: claims.sub,
+      aud: EXPECTED_AUDIENCE,
+      email: claims.email,
+      role: claims.role,
+      app_metadata: claims.app_metadata || {},
+      user_metadata: claims.user_metadata || {},
+      created_at: ''
+    } as User;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new InvalidTokenError(error?.message || 'Invalid token');
+  }
+  return data.user;
+}
@@ -0,0 +1,49 @@
+import { getBuiltinChecker, parsePartialScore, runChecker } from './checkers';
+
+const check = (id: string, expected: string, actual: string, precision = 1e-6) => {
+  return getBuiltinChecker(id)!.check(expected, actual, precision);
+};
+
+test('the exact checker ignores surrounding whitespace only', () => {
+  expect(check('exact', '1 2\n3\n', '  1 2\n3').passed).toBe(true);
+  expect(check('exact', '1 2\n3\n', '1  2\n3').passed).toBe(false);
+});
+
+test('the line checker ignores trailing whitespace and blank lines at the end', () => {
+  expect(check('line', 'a b\nc\n', 'a b  \r\nc\n\n\n').passed).toBe(true);
+  expect(check('line', 'a b\nc\n', 'a  b\nc\n')).toEqual({ passed: false, score: 0, message: 'Line 1 differs' });
+  expect(check('line', 'a\nb\n', 'a\n')).toEqual({ passed: false, score: 0, message: 'Expected 2 lines, got 1' });
+});
+
+test('the token checkers compare whitespace-separated tokens', () => {
+  expect(check('token', '1 2\n3', '1\n2 3').passed).toBe(true);
+  expect(check('token', 'YES', 'yes')).toEqual({ passed: false, score: 0, message: 'Token 1 differs' });
+  expect(check('case-insensitive', 'YES', 'yes').passed).toBe(true);
+  expect(check('token', '1 2', '1 2 3').message).toBe('Expected 2 tokens, got 3');
+});
+
+test('the float checkers compare numbers within the precision and other tokens exactly', () => {
+  expect(check('float-absolute', '0.5 x', '0.5000001 x').passed).toBe(true);
+  expect(check('float-absolute', '0.5', '0.501').passed).toBe(false);
+  expect(check('float-absolute', '0.5 x', '0.5 y').passed).toBe(false);
+  expect(check('float-absolute', '1000000', '1000000.5').passed).toBe(false);
+  expect(check('float-relative', '1000000', '1000000.5').passed).toBe(true);
+  expect(check('float-relative', '1e6', '1000000').passed).toBe(true);
+});
+
+test('built-in checkers accept expected output as bytes', async () => {
+  const checker = { type: 'builtin' as const, checker: getBuiltinChecker('exact')!, precision: 1e-6 };
+  const result = await runChecker(checker, { input: '', expected: Buffer.from('42\n'), actual: '42' });
+  expect(result.passed).toBe(true);
+});
+
+test('partial scores are numbers from 0 to 1 on the first line', () => {
+  expect(parsePartialScore('0.25\nignored')).toBe(0.25);
+  expect(parsePartialScore(' 1 \n')).toBe(1);
+  expect(parsePartialScore('0')).toBe(0);
+  expect(parsePartialScore('')).toBeNull();
+  expect(parsePartialScore('half')).toBeNull();
+  expect(parsePartialScore('1.5')).toBeNull();
+  expect(parsePartialScore('-0.1')).toBeNull();
+  expect(parsePartialScore('\n0.5')).toBeNull();
+});
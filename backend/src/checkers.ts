@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getLanguage, LanguageConfig } from './languages';
+import { runInSandbox } from './sandbox';
+import { compileSubmission } from './compiler';
+
+// Output checkers (special judges).
+//
+// Built-in checkers compare the program's output with the expected output in-process.
+// Custom checkers are programs uploaded by admins and run in the sandbox as
+//   <run command> input.txt expected.txt actual.txt
+// and report back through their exit code:
+//   0 - accepted
+//   1 - wrong answer
+//   2 - partial credit; the first line of stdout is the fraction of the test's points (0 to 1)
+// Anything the checker writes to stderr is shown to the user as the checker message.
+
+const CHECKER_TIME_LIMIT_MS = 10000;
+const CHECKER_MEMORY_LIMIT_MB = 512;
+const CHECKER_CACHE_DIR = path.join(os.tmpdir(), 'wmoj-checkers');
+const DEFAULT_PRECISION = 1e-6;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+export interface CheckerResult {
+  passed: boolean;
+  score: number; // Fraction of the test's points earned, 0 to 1
+  message?: string;
+}
+
+interface BuiltinChecker {
+  id: string;
+  name: string;
+  usesPrecision: boolean;
+  check: (expected: string, actual: string, precision: number) => CheckerResult;
+}
+
+export type ProblemChecker =
+  | { type: 'builtin'; checker: BuiltinChecker; precision: number }
+  | { type: 'custom'; language: LanguageConfig; dir: string };
+
+export interface CheckerFiles {
+  input: string | Buffer;
+  expected: string | Buffer;
+  actual: string;
+}
+
+const accepted = (): CheckerResult => ({ passed: true, score: 1 });
+const wrongAnswer = (message: string): CheckerResult => ({ passed: false, score: 0, message });
+
+const toTokens = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Lines without trailing whitespace, ignoring blank lines at the end of the output
+const toLines = (text: string) => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n').map(line => line.replace(/\s+$/, ''));
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+};
+
+const compareTokens = (
+  expected: string,
+  actual: string,
+  equals: (expectedToken: string, actualToken: string) => boolean
+): CheckerResult => {
+  const expectedTokens = toTokens(expected);
+  const actualTokens = toTokens(actual);
+
+  for (let i = 0; i < Math.min(expectedTokens.length, actualTokens.length); i++) {
+    if (!equals(expectedTokens[i], actualTokens[i])) {
+      return wrongAnswer(`Token ${i + 1} differs`);
+    }
+  }
+  if (expectedTokens.length !== actualTokens.length) {
+    return wrongAnswer(`Expected ${expectedTokens.length} tokens, got ${actualTokens.length}`);
+  }
+  return accepted();
+};
+
+// Numeric tokens are compared with a tolerance, anything else must match exactly
+const floatEquals = (relative: boolean, precision: number) => (expectedToken: string, actualToken: string) => {
+  if (!NUMBER_PATTERN.test(expectedToken) || !NUMBER_PATTERN.test(actualToken)) {
+    return expectedToken === actualToken;
+  }
+  const expectedValue = Number(expectedToken);
+  const actualValue = Number(actualToken);
+  const tolerance = relative ? precision * Math.max(1, Math.abs(expectedValue)) : precision;
+  return Math.abs(expectedValue - actualValue) <= tolerance;
+};
+
+export const builtinCheckers: BuiltinChecker[] = [
+  {
+    id: 'exact',
+    name: 'Exact match (ignoring surrounding whitespace)',
+    usesPrecision: false,
+    check: (expected, actual) => expected.trim() === actual.trim() ? accepted() : wrongAnswer('Output differs')
+  },
+  {
+    id: 'line',
+    name: 'Line by line (ignoring trailing whitespace)',
+    usesPrecision: false,
+    check: (expected, actual) => {
+      const expectedLines = toLines(expected);
+      const actualLines = toLines(actual);
+      for (let i = 0; i < Math.min(expectedLines.length, actualLines.length); i++) {
+        if (expectedLines[i] !== actualLines[i]) {
+          return wrongAnswer(`Line ${i + 1} differs`);
+        }
+      }
+      if (expectedLines.length !== actualLines.length) {
+        return wrongAnswer(`Expected ${expectedLines.length} lines, got ${actualLines.length}`);
+      }
+      return accepted();
+    }
+  },
+  {
+    id: 'token',
+    name: 'Token by token',
+    usesPrecision: false,
+    check: (expected, actual) => compareTokens(expected, actual, (a, b) => a === b)
+  },
+  {
+    id: 'case-insensitive',
+    name: 'Token by token, case-insensitive',
+    usesPrecision: false,
+    check: (expected, actual) => compareTokens(expected, actual, (a, b) => a.toLowerCase() === b.toLowerCase())
+  },
+  {
+    id: 'float-absolute',
+    name: 'Floating point, absolute tolerance',
+    usesPrecision: true,
+    check: (expected, actual, precision) => compareTokens(expected, actual, floatEquals(false, precision))
+  },
+  {
+    id: 'float-relative',
+    name: 'Floating point, relative tolerance',
+    usesPrecision: true,
+    check: (expected, actual, precision) => compareTokens(expected, actual, floatEquals(true, precision))
+  }
+];
+
+export const DEFAULT_CHECKER_ID = 'exact';
+export const CUSTOM_CHECKER_ID = 'custom';
+
+export const getBuiltinChecker = (id: string): BuiltinChecker | undefined => {
+  return builtinCheckers.find(checker => checker.id === id);
+};
+
+// Compile a custom checker once and reuse it for every submission until its source changes
+const prepareCustomChecker = async (source: string, language: LanguageConfig): Promise<string> => {
+  const hash = crypto.createHash('sha256').update(`${language.id}\0${source}`).digest('hex');
+  const checkerDir = path.join(CHECKER_CACHE_DIR, hash);
+  if (fs.existsSync(checkerDir)) {
+    return checkerDir;
+  }
+
+  fs.mkdirSync(CHECKER_CACHE_DIR, { recursive: true });
+  const buildDir = fs.mkdtempSync(path.join(CHECKER_CACHE_DIR, 'build-'));
+  try {
+    fs.writeFileSync(path.join(buildDir, language.sourceFile), source);
+    const compileResult = await compileSubmission(language, buildDir);
+    if (!compileResult.success) {
+      throw new Error(`Checker failed to compile: ${compileResult.output}`);
+    }
+
+    try {
+      fs.renameSync(buildDir, checkerDir);
+    } catch {
+      // Another submission finished compiling the same checker first
+    }
+    return checkerDir;
+  } finally {
+    fs.rmSync(buildDir, { recursive: true, force: true });
+  }
+};
+
+// Resolve a problem's checker settings, compiling its custom checker if it has one
+export async function prepareChecker(problem: any): Promise<ProblemChecker> {
+  if (problem.checker === CUSTOM_CHECKER_ID) {
+    const language = getLanguage(problem.checker_language);
+    if (!language || !problem.checker_source) {
+      throw new Error('Custom checker is missing its source or language');
+    }
+    return { type: 'custom', language, dir: await prepareCustomChecker(problem.checker_source, language) };
+  }
+
+  return {
+    type: 'builtin',
+    checker: getBuiltinChecker(problem.checker) || getBuiltinChecker(DEFAULT_CHECKER_ID)!,
+    precision: problem.checker_precision || DEFAULT_PRECISION
+  };
+}
+
+// The fraction a custom checker reports on the first line of its output: a number from 0 to 1, or null
+export function parsePartialScore(stdout: string): number | null {
+  const line = stdout.split('\n')[0].trim();
+  if (!NUMBER_PATTERN.test(line)) {
+    return null;
+  }
+  const score = Number(line);
+  return Number.isFinite(score) && score >= 0 && score <= 1 ? score : null;
+}
+
+export async function runChecker(checker: ProblemChecker, files: CheckerFiles): Promise<CheckerResult> {
+  if (checker.type === 'builtin') {
+    return checker.checker.check(files.expected.toString(), files.actual, checker.precision);
+  }
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-check-'));
+  try {
+    fs.cpSync(checker.dir, workDir, { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'input.txt'), files.input);
+    fs.writeFileSync(path.join(workDir, 'expected.txt'), files.expected);
+    fs.writeFileSync(path.join(workDir, 'actual.txt'), files.actual);
+
+    const result = await runInSandbox({
+      command: [...checker.language.runCommand, 'input.txt', 'expected.txt', 'actual.txt'],
+      workDir,
+      timeLimitMs: CHECKER_TIME_LIMIT_MS,
+      memoryLimitMb: CHECKER_MEMORY_LIMIT_MB,
+      addressSpaceOverheadMb: checker.language.addressSpaceOverheadMb,
+      maxProcesses: checker.language.maxProcesses
+    });
+
+    const message = result.stderr.trim() || undefined;
+
+    if (result.exitCode === 0) {
+      return { passed: true, score: 1, message };
+    }
+    if (result.exitCode === 1) {
+      return { passed: false, score: 0, message };
+    }
+    if (result.exitCode === 2) {
+      const score = parsePartialScore(result.stdout);
+      if (score === null) {
+        throw new Error(`Checker reported an invalid partial score: ${JSON.stringify(result.stdout.split('\n')[0])}`);
+      }
+      return { passed: score === 1, score, message };
+    }
+
+    throw new Error(result.error || message || `Checker exited with code ${result.exitCode}`);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,50 @@
+import { LanguageConfig } from './languages';
+import { runInSandbox } from './sandbox';
+
+// Compilation of submissions and custom checkers, run inside the sandbox like any judged process
+
+const COMPILE_TIME_LIMIT_MS = 10000;
+const COMPILE_MEMORY_LIMIT_MB = 1024;
+const COMPILE_MAX_PROCESSES = 128;
+
+export interface CompileResult {
+  success: boolean;
+  output: string;
+}
+
+// Compile source already written to the working directory; interpreted languages succeed immediately
+export async function compileSubmission(language: LanguageConfig, workDir: string): Promise<CompileResult> {
+  if (!language.compileCommand) {
+    return { success: true, output: '' };
+  }
+
+  console.log(`Compiling ${language.id} submission in ${workDir}`);
+
+  const result = await runInSandbox({
+    command: language.compileCommand,
+    workDir,
+    timeLimitMs: COMPILE_TIME_LIMIT_MS,
+    memoryLimitMb: COMPILE_MEMORY_LIMIT_MB,
+    addressSpaceOverheadMb: language.addressSpaceOverheadMb,
+    maxProcesses: COMPILE_MAX_PROCESSES
+  });
+
+  console.log(`Compiler exited with code ${result.exitCode}`);
+
+  const output = result.stdout + result.stderr;
+
+  if (result.error) {
+    return { success: false, output: result.error };
+  }
+  if (result.timedOut) {
+    return { success: false, output: output || 'Compilation timed out' };
+  }
+  if (result.exitCode !== 0) {
+    return {
+      success: false,
+      output: output || (result.signal ? `Compilation killed by ${result.signal}` : `Compiler exited with code ${result.exitCode}`)
+    };
+  }
+
+  return { success: true, output };
+}
@@ -3,10 +3,45 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import multer from 'multer';
 import { createClient, User } from '@supabase/supabase-js';
-import { spawn } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { languages, getLanguage, DEFAULT_LANGUAGE_ID, LanguageConfig } from './languages';
+import { runInSandbox, SandboxResult } from './sandbox';
+import { compileSubmission } from './compiler';
+import {
+  builtinCheckers,
+  getBuiltinChecker,
+  prepareChecker,
+  runChecker,
+  ProblemChecker,
+  DEFAULT_CHECKER_ID,
+  CUSTOM_CHECKER_ID
+} from './checkers';
+import { Verdict, VERDICT_NAMES, isVerdict, getSubmissionVerdict } from './verdicts';
+import { createJudgeQueue } from './judgeQueue';
+import { parseBatches, getTotalPoints, orderTestCases, shouldSkipTest, scoreSubmission } from './scoring';
+import { verifyAccessToken, InvalidTokenError } from './auth';
+import { createRateLimiter } from './rateLimit';
+import { startRejudge, recordRejudgeResult, getRejudgeSummary, RejudgeScope } from './rejudges';
+import { readTestArchive, storeTestCases, loadTestCase, loadTestCaseData, removeTestFiles, TestArchiveError } from './testData';
+import { readProblemPackage, writeProblemPackage, toPackageName, ProblemPackageError, PackageFileError } from './problemPackages';
+import { SCORING_MODES, DEFAULT_SCORING_MODE, getFreezeTime, isBoardFrozen } from './standings';
+import {
+  buildLeaderboard,
+  revealNextResult,
+  unfreezeBoard,
+  getRatedStandings,
+  updateParticipantStandings,
+  invalidateStandings,
+  renameParticipant,
+  LeaderboardView,
+  LeaderboardPageRequest
+} from './leaderboard';
+import { attachLeaderboardSockets, notifyLeaderboardChanged } from './leaderboardUpdates';
+import { finalizeRatings } from './ratings';
+import { publishSubmissionEvent, subscribeToSubmission, SubmissionEvent } from './submissionEvents';
 
 dotenv.config();
 
@@ -47,7 +82,7 @@ app.use(cors({
   optionsSuccessStatus: 200,
   preflightContinue: false
 }));
-app.use(express.json());
+app.use(express.json({ limit: '1mb' }));
 
 // Error handling middleware for CORS
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -83,17 +118,114 @@ const storage = multer.diskStorage({
   }
 });
 
-const upload = multer({ storage });
+// Judge limits
+const DEFAULT_TIME_LIMIT_MS = 5000;
+const DEFAULT_MEMORY_LIMIT_MB = 256;
+const MAX_TIME_LIMIT_MS = 60000;
+const MAX_MEMORY_LIMIT_MB = 2048;
 
 interface TestResult {
   testCaseId: string;
   passed: boolean;
+  verdict: Verdict;
   actualOutput?: string;
   expectedOutput?: string;
   input?: string;
   error?: string;
+  wallTimeMs?: number;
+  cpuTimeMs?: number;
+  memoryKb?: number;
+  score?: number; // Fraction of the test's points earned, 0 to 1
+  checkerMessage?: string;
+  batch?: number | null;
+  sample?: boolean; // Only sample tests carry their input, outputs and messages
 }
 
+interface CheckerSettings {
+  checker: string;
+  checker_precision: number | null;
+  checker_language: string | null;
+  checker_source: string | null;
+}
+
+interface JudgeLimits {
+  timeLimitMs: number;
+  memoryLimitMb: number;
+}
+
+// Where a contest is in its schedule. Contest problems stay hidden while it is upcoming,
+// and submissions to them are only accepted while it is running.
+type ContestPhase = 'upcoming' | 'running' | 'ended';
+
+// Where a user is in a contest. In windowed contests each participant gets a personal time limit,
+// started whenever they like while the contest runs; problems stay hidden until they start it
+// and submissions are accepted until it runs out.
+type ParticipantPhase = ContestPhase | 'window-not-started' | 'window-ended';
+
+// Submissions move through these states while the judge queue works on them
+type SubmissionStatus = 'QUEUED' | 'COMPILING' | 'RUNNING' | 'DONE';
+
+interface JudgeJob {
+  submissionId: string;
+  userId: string;
+  contestId: string | null; // Set when the result counts towards a running contest
+  problem: any;
+  testCases: any[];
+  language: LanguageConfig;
+  source: Buffer;
+  submittedAt: string;
+  rejudgeId?: string; // Set when an admin rejudge queued the submission again
+}
+
+// A "Run with custom input" request: the code runs once on the user's stdin and nothing is recorded
+interface RunJob {
+  language: LanguageConfig;
+  source: string;
+  input: string;
+  limits: JudgeLimits;
+  resolve: (result: CustomRunResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface CustomRunResult {
+  compileError?: string;
+  verdict: Verdict | null; // Null when the program exited normally
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  wallTimeMs?: number;
+  cpuTimeMs?: number;
+  memoryKb?: number;
+}
+
+// Largest zip of test data an admin can upload
+const MAX_TEST_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+// Largest source file accepted for submissions, runs and drafts
+const MAX_SOURCE_BYTES = 256 * 1024;
+
+// Uploads are cut off while they stream in, so oversized files never fill the disk
+const codeUpload = multer({ storage, limits: { fileSize: MAX_SOURCE_BYTES, files: 1 } });
+const archiveUpload = multer({ storage, limits: { fileSize: MAX_TEST_ARCHIVE_BYTES, files: 1 } });
+
+// Submission history pagination
+const DEFAULT_SUBMISSIONS_PAGE_SIZE = 20;
+const MAX_SUBMISSIONS_PAGE_SIZE = 100;
+
+// Submission columns a rejudge needs to queue a submission again and report what changed
+const REJUDGE_SUBMISSION_FIELDS = 'id, user_id, problem_id, contest_id, language, source_code, status, verdict, points, created_at';
+
+// Number of submissions judged at the same time
+const JUDGE_WORKERS = Number(process.env.JUDGE_WORKERS) || Math.max(1, os.cpus().length - 1);
+
+// Custom input runs get their own workers so they don't wait behind judged submissions
+const RUN_WORKERS = Number(process.env.RUN_WORKERS) || 1;
+const RUN_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RUN_RATE_LIMIT_MAX = Number(process.env.RUN_RATE_LIMIT) || 10;
+const MAX_RUN_INPUT_BYTES = 256 * 1024;
+const RUN_OUTPUT_LIMIT_BYTES = 256 * 1024;
+
 // Authentication middleware
 const authenticateUser = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   try {
@@ -102,23 +234,38 @@ const authenticateUser = async (req: express.Request, res: express.Response, nex
       return res.status(401).json({ error: 'No authorization token provided' });
     }
 
-    const userId = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    // For now, we'll trust the user ID from the frontend since Supabase auth is handled client-side
-    // In a production environment, you might want to verify the JWT token instead
-    if (!userId || userId.length < 10) {
+    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    if (!token) {
       return res.status(401).json({ error: 'Invalid user token' });
     }
 
-    // Create a minimal user object with the ID
-    req.user = { id: userId } as User;
+    // The token is the Supabase session's access token; the user is taken from it, never from the request
+    req.user = await verifyAccessToken(token, supabase);
     next();
   } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      return res.status(401).json({ error: 'Invalid or expired session. Please sign in again.' });
+    }
     console.error('Authentication error:', error);
     res.status(401).json({ error: 'Authentication failed' });
   }
 };
 
+// Like authenticateUser, but lets anonymous requests through; req.user is only set for a valid token
+const identifyUser = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      req.user = await verifyAccessToken(authHeader.substring(7), supabase);
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        console.error('Authentication error:', error);
+      }
+    }
+  }
+  next();
+};
+
 // Admin authorization middleware
 const requireAdmin = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   try {
@@ -144,6 +291,21 @@ const requireAdmin = async (req: express.Request, res: express.Response, next: e
   }
 };
 
+// Helper function to check admin rights outside of requireAdmin, for routes that admins see differently
+async function isAdminUser(userId: string | undefined): Promise<boolean> {
+  if (!userId) {
+    return false;
+  }
+
+  const { data: adminUser } = await supabaseAdmin
+    .from('admin_users')
+    .select('is_admin')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!adminUser?.is_admin;
+}
+
 // Routes
 app.get('/', (req, res) => {
   res.json({ message: 'WMOJ Backend API' });
@@ -154,7 +316,23 @@ app.get('/', (req, res) => {
 // Handle preflight requests for authenticated endpoints
 app.options('/api/submissions', (req, res) => {
   res.header('Access-Control-Allow-Origin', req.headers.origin);
-  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+app.options('/api/submissions/:submissionId/events', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+app.options('/api/submissions/:submissionId', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   res.header('Access-Control-Allow-Credentials', 'true');
   res.status(200).end();
@@ -192,7 +370,8 @@ app.options('/api/contests/:contestId/join', (req, res) => {
   res.status(200).end();
 });
 
-// Get active contests (public)
+// Get published contests (public). is_active only publishes a contest; whether it is open comes
+// from its schedule.
 app.get('/api/contests', async (req, res) => {
   try {
     const { data, error } = await supabaseAdmin
@@ -205,13 +384,29 @@ app.get('/api/contests', async (req, res) => {
       return res.status(500).json({ success: false, error: 'Failed to fetch contests' });
     }
 
-    res.json({ success: true, data });
+    const now = Date.now();
+    res.json({ success: true, data: data.map(contest => ({ ...contest, phase: getContestPhase(contest, now) })) });
   } catch (error) {
     console.error('Error fetching contests:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
+// Get supported judge languages (public)
+app.get('/api/languages', (req, res) => {
+  res.json({
+    success: true,
+    data: languages.map(({ id, name, version, extension, timeMultiplier, memoryMultiplier }) => ({
+      id,
+      name,
+      version,
+      extension,
+      time_multiplier: timeMultiplier || 1,
+      memory_multiplier: memoryMultiplier || 1
+    }))
+  });
+});
+
 // Get standalone problems (public)
 app.get('/api/problems', async (req, res) => {
   try {
@@ -225,7 +420,7 @@ app.get('/api/problems', async (req, res) => {
       return res.status(500).json({ success: false, error: 'Failed to fetch problems' });
     }
 
-    res.json({ success: true, data });
+    res.json({ success: true, data: data.map(toPublicProblem) });
   } catch (error) {
     console.error('Error fetching problems:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -233,7 +428,7 @@ app.get('/api/problems', async (req, res) => {
 });
 
 // Get a single problem
-app.get('/api/problems/:problemId', async (req, res) => {
+app.get('/api/problems/:problemId', identifyUser, async (req, res) => {
   try {
     const { problemId } = req.params;
     
@@ -247,99 +442,181 @@ app.get('/api/problems/:problemId', async (req, res) => {
       return res.status(404).json({ success: false, error: 'Problem not found' });
     }
 
-    res.json({ success: true, data });
+    // Contest problems are hidden until the contest starts, or in windowed contests until the user's window does
+    if (isHiddenPhase(await getProblemContestPhase(data, req.user?.id))) {
+      return res.status(404).json({ success: false, error: 'Problem not found' });
+    }
+
+    const samples = await getSampleTestCases(problemId);
+    res.json({ success: true, data: { ...toPublicProblem(data), samples } });
   } catch (error) {
     console.error('Error fetching problem:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
+// Submission history for the current user, newest first
 app.get('/api/submissions', authenticateUser, async (req, res) => {
   try {
     const userId = req.user?.id;
-    const { contestId } = req.query;
+    const { contestId, problemId, verdict, language } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(MAX_SUBMISSIONS_PAGE_SIZE, Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_SUBMISSIONS_PAGE_SIZE));
+
+    if (verdict && !isVerdict(verdict)) {
+      return res.status(400).json({ success: false, error: 'Invalid verdict filter' });
+    }
 
+    // Source code and per-test results are left out of the list; they come with the single submission
     let query = supabaseAdmin
-      .from('contest_submissions')
-      .select('*')
+      .from('submissions')
+      .select('id, problem_id, contest_id, language, status, verdict, passed_tests, total_tests, points, total_points, created_at, judged_at', { count: 'exact' })
       .eq('user_id', userId);
 
     if (contestId) {
       query = query.eq('contest_id', contestId);
     }
 
-    const { data, error } = await query;
+    if (problemId) {
+      query = query.eq('problem_id', problemId);
+    }
+
+    if (verdict) {
+      query = query.eq('verdict', verdict);
+    }
+
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    const { data: submissions, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1);
 
     if (error) {
       return res.status(500).json({ success: false, error: 'Failed to fetch submissions' });
     }
 
-    res.json({ success: true, data });
+    const problemTitles = await getProblemTitles(submissions.map(submission => submission.problem_id));
+
+    res.json({
+      success: true,
+      data: {
+        submissions: submissions.map(submission => ({
+          ...submission,
+          problem_title: problemTitles[submission.problem_id] || 'Deleted problem'
+        })),
+        total: count || 0,
+        page,
+        pageSize
+      }
+    });
   } catch (error) {
     console.error('Error fetching submissions:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-app.post('/api/submissions', authenticateUser, async (req, res) => {
+app.get('/api/submissions/:submissionId', authenticateUser, async (req, res) => {
   try {
     const userId = req.user?.id;
-    const { contest_id, problem_id, score, total_tests } = req.body;
+    const { submissionId } = req.params;
 
-    if (!contest_id || !problem_id || score === undefined || total_tests === undefined) {
-      return res.status(400).json({ success: false, error: 'Missing required fields' });
-    }
-
-    // Check if submission already exists
-    const { data: existingSubmission, error: checkError } = await supabaseAdmin
-      .from('contest_submissions')
+    const { data, error } = await supabaseAdmin
+      .from('submissions')
       .select('*')
-      .eq('contest_id', contest_id)
-      .eq('problem_id', problem_id)
+      .eq('id', submissionId)
       .eq('user_id', userId)
       .single();
 
-    if (checkError === null && existingSubmission) {
-      // Update existing submission
-      const { data, error } = await supabaseAdmin
-        .from('contest_submissions')
-        .update({
-          score: score,
-          total_tests: total_tests,
-          submitted_at: new Date().toISOString()
-        })
-        .eq('id', existingSubmission.id)
-        .select()
-        .single();
+    if (error || !data) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
 
-      if (error) {
-        return res.status(500).json({ success: false, error: 'Failed to update submission' });
-      }
+    const problemTitles = await getProblemTitles([data.problem_id]);
+
+    res.json({ success: true, data: { ...data, problem_title: problemTitles[data.problem_id] || 'Deleted problem' } });
+  } catch (error) {
+    console.error('Error fetching submission:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Server-Sent Events stream of a submission's judging progress.
+// Sends a snapshot of the stored submission first, then live events until judging finishes.
+app.get('/api/submissions/:submissionId/events', authenticateUser, async (req, res) => {
+  const userId = req.user?.id;
+  const { submissionId } = req.params;
+
+  // Subscribe before reading the snapshot so no event is missed; events are held back until it is sent
+  const pendingEvents: SubmissionEvent[] = [];
+  let snapshotSent = false;
+  let heartbeat: NodeJS.Timeout | undefined;
 
-      return res.json({ success: true, data });
+  const sendEvent = (event: SubmissionEvent | { type: 'snapshot'; submission: any }) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'done') {
+      close();
     }
+  };
 
-    // Create new submission
-    const { data, error } = await supabaseAdmin
-      .from('contest_submissions')
-      .insert({
-        contest_id: contest_id,
-        problem_id: problem_id,
-        user_id: userId,
-        score: score,
-        total_tests: total_tests
-      })
-      .select()
+  const unsubscribe = subscribeToSubmission(submissionId, (event) => {
+    if (snapshotSent) {
+      sendEvent(event);
+    } else {
+      pendingEvents.push(event);
+    }
+  });
+
+  const close = () => {
+    unsubscribe();
+    if (heartbeat) clearInterval(heartbeat);
+    res.end();
+  };
+
+  try {
+    const { data: submission, error } = await supabaseAdmin
+      .from('submissions')
+      .select('*')
+      .eq('id', submissionId)
+      .eq('user_id', userId)
       .single();
 
-    if (error) {
-      return res.status(500).json({ success: false, error: 'Failed to create submission' });
+    if (error || !submission) {
+      unsubscribe();
+      return res.status(404).json({ success: false, error: 'Submission not found' });
     }
 
-    res.json({ success: true, data });
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    res.on('close', close);
+    // Comment lines keep idle proxies from dropping the connection while the submission waits in the queue
+    heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+    sendEvent({ type: 'snapshot', submission });
+    snapshotSent = true;
+
+    if (submission.status === 'DONE') {
+      return close();
+    }
+    for (const event of pendingEvents) {
+      if (res.writableEnded) break;
+      sendEvent(event);
+    }
   } catch (error) {
-    console.error('Error saving submission:', error);
-    res.status(500).json({ success: false, error: 'Internal server error' });
+    console.error('Error streaming submission:', error);
+    unsubscribe();
+    if (heartbeat) clearInterval(heartbeat);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    } else {
+      res.end();
+    }
   }
 });
 
@@ -371,6 +648,19 @@ app.get('/api/contests/:contestId', authenticateUser, async (req, res) => {
       return res.status(404).json({ success: false, error: 'Contest not found' });
     }
 
+    // Until the contest (or their window) starts, participants only get the schedule, for the countdown
+    const phase = getParticipantPhase(contest, participation);
+    const schedule = {
+      contest,
+      participation,
+      phase,
+      window_ends_at: getWindowEnd(contest, participation)?.toISOString() ?? null,
+      server_time: new Date().toISOString()
+    };
+    if (isHiddenPhase(phase)) {
+      return res.json({ success: true, data: { ...schedule, problems: [], submissions: [] } });
+    }
+
     // Get problems (without test cases)
     const { data: problems, error: problemsError } = await supabaseAdmin
       .from('problems')
@@ -396,8 +686,8 @@ app.get('/api/contests/:contestId', authenticateUser, async (req, res) => {
     res.json({
       success: true,
       data: {
-        contest,
-        problems,
+        ...schedule,
+        problems: problems.map(toPublicProblem),
         submissions
       }
     });
@@ -410,107 +700,31 @@ app.get('/api/contests/:contestId', authenticateUser, async (req, res) => {
 app.get('/api/contests/:contestId/leaderboard', authenticateUser, async (req, res) => {
   try {
     const { contestId } = req.params;
-    const userId = req.user?.id;
-
-    // Check if user is participating
-    const { data: participation, error: participationError } = await supabaseAdmin
-      .from('contest_participants')
-      .select('*')
-      .eq('contest_id', contestId)
-      .eq('user_id', userId)
-      .single();
 
-    if (participationError || !participation) {
+    const view = await getLeaderboardView(req.user!.id, contestId, req.query.view === 'public');
+    if (!view) {
       return res.status(403).json({ success: false, error: 'Not participating in this contest' });
     }
 
-    // Get all participants
-    const { data: participants, error: participantsError } = await supabaseAdmin
-      .from('contest_participants')
-      .select('*')
-      .eq('contest_id', contestId);
-
-    if (participantsError) {
-      return res.status(500).json({ success: false, error: 'Failed to fetch participants' });
-    }
-
-    // Get user profiles
-    const participantUserIds = participants?.map(p => p.user_id) || [];
-    const { data: userProfiles, error: profilesError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('user_id, username')
-      .in('user_id', participantUserIds);
-
-    if (profilesError) {
-      return res.status(500).json({ success: false, error: 'Failed to fetch user profiles' });
-    }
-
-    // Get all problems for this contest
-    const { data: problems, error: problemsError } = await supabaseAdmin
-      .from('problems')
-      .select('*')
-      .eq('contest_id', contestId);
-
-    if (problemsError) {
-      return res.status(500).json({ success: false, error: 'Failed to fetch problems' });
-    }
-
-    // Get all submissions for the contest
-    const { data: submissions, error: submissionsError } = await supabaseAdmin
-      .from('contest_submissions')
-      .select('*')
-      .eq('contest_id', contestId);
-
-    if (submissionsError) {
-      return res.status(500).json({ success: false, error: 'Failed to fetch submissions' });
-    }
-
-    // Get test cases for all problems to calculate total possible score
-    const { data: testCases, error: testCasesError } = await supabaseAdmin
-      .from('test_cases')
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
       .select('*')
-      .in('problem_id', problems.map(p => p.id));
+      .eq('id', contestId)
+      .single();
 
-    if (testCasesError) {
-      return res.status(500).json({ success: false, error: 'Failed to fetch test cases' });
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found' });
     }
 
-    // Calculate total possible score for the contest
-    const totalPossibleScore = problems.reduce((total, problem) => {
-      const problemTestCases = testCases.filter(tc => tc.problem_id === problem.id);
-      return total + problemTestCases.length;
-    }, 0);
-
-    // Calculate leaderboard
-    const leaderboardData = participants?.map(participant => {
-      const profile = userProfiles?.find(p => p.user_id === participant.user_id);
-      const userSubmissions = submissions?.filter(s => s.user_id === participant.user_id) || [];
-      const totalScore = userSubmissions.reduce((sum, sub) => sum + sub.score, 0);
-      
-      // Only count problems as solved if user passed all test cases
-      const problemsSolved = userSubmissions.filter(sub => 
-        sub.score === sub.total_tests && sub.total_tests > 0
-      ).length;
-
-      return {
-        user_id: participant.user_id,
-        username: profile?.username || 'Anonymous User',
-        total_score: totalScore,
-        total_possible_score: totalPossibleScore,
-        problems_solved: problemsSolved,
-        total_problems: problems.length
-      };
-    }) || [];
+    // ?page=N or ?page=me for the page with the user's own entry
+    const pageRequest: LeaderboardPageRequest = {
+      page: req.query.page === 'me' ? 'me' : Number(req.query.page) || undefined,
+      pageSize: Number(req.query.page_size) || undefined
+    };
 
-    // Sort by total score (descending), then by problems solved (descending)
-    leaderboardData.sort((a, b) => {
-      if (b.total_score !== a.total_score) {
-        return b.total_score - a.total_score;
-      }
-      return b.problems_solved - a.problems_solved;
-    });
+    const leaderboard = await buildLeaderboard(supabaseAdmin, contest, view, pageRequest);
 
-    res.json({ success: true, data: leaderboardData });
+    res.json({ success: true, data: leaderboard });
   } catch (error) {
     console.error('Error fetching leaderboard:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -598,6 +812,14 @@ app.get('/api/admin/problems', authenticateUser, requireAdmin, async (req, res)
   }
 });
 
+// Get built-in output checkers (admin only)
+app.get('/api/admin/checkers', authenticateUser, requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    data: builtinCheckers.map(({ id, name, usesPrecision }) => ({ id, name, uses_precision: usesPrecision }))
+  });
+});
+
 // Handle preflight requests for signup
 app.options('/api/users/signup', (req, res) => {
   res.header('Access-Control-Allow-Origin', req.headers.origin);
@@ -1015,18 +1237,34 @@ app.post('/api/users/finalize-signup', async (req, res) => {
 
 app.post('/api/admin/contests', authenticateUser, requireAdmin, async (req, res) => {
   try {
-    const { title, description, end_time } = req.body;
+    const { title, description, start_time, end_time, window_minutes, freeze_minutes, scoring_mode, rated } = req.body;
 
     if (!title || !description) {
       return res.status(400).json({ success: false, error: 'Missing required fields' });
     }
 
+    if (scoring_mode !== undefined && !SCORING_MODES.includes(scoring_mode)) {
+      return res.status(400).json({ success: false, error: `Unknown scoring mode: ${scoring_mode}` });
+    }
+
+    const schedule = parseContestSchedule(start_time, end_time, window_minutes, freeze_minutes);
+    if (typeof schedule === 'string') {
+      return res.status(400).json({ success: false, error: schedule });
+    }
+
+    // Ratings are calculated from the final standings, so rated contests have to end
+    if (rated && !schedule.end_time) {
+      return res.status(400).json({ success: false, error: 'Only contests with an end time can be rated' });
+    }
+
     const { data, error } = await supabaseAdmin
       .from('contests')
       .insert([{
         title: title.trim(),
         description: description.trim(),
-        end_time: end_time || null
+        ...schedule,
+        scoring_mode: scoring_mode || DEFAULT_SCORING_MODE,
+        rated: Boolean(rated)
       }])
       .select()
       .single();
@@ -1044,19 +1282,45 @@ app.post('/api/admin/contests', authenticateUser, requireAdmin, async (req, res)
 
 app.post('/api/admin/problems', authenticateUser, requireAdmin, async (req, res) => {
   try {
-    const { title, description, contest_id, test_cases } = req.body;
+    const { title, description, contest_id, test_cases, time_limit_ms, memory_limit_mb } = req.body;
 
-    if (!title || !description || !test_cases || test_cases.length === 0) {
+    // Test cases may be left empty when the test data is uploaded as a zip right after
+    if (!title || !description || !Array.isArray(test_cases)) {
       return res.status(400).json({ success: false, error: 'Missing required fields' });
     }
 
+    // Test data is stored exactly as typed; trimming here only checks that it isn't blank
+    const isBlank = (value: any) => typeof value !== 'string' || !value.trim();
+    if (test_cases.some((tc: any) => isBlank(tc.input) || isBlank(tc.expected_output))) {
+      return res.status(400).json({ success: false, error: 'Every test case needs an input and an expected output' });
+    }
+
+    const limits = parseProblemLimits(time_limit_ms, memory_limit_mb);
+    if (typeof limits === 'string') {
+      return res.status(400).json({ success: false, error: limits });
+    }
+
+    const checkerSettings = parseCheckerSettings(req.body);
+    if (typeof checkerSettings === 'string') {
+      return res.status(400).json({ success: false, error: checkerSettings });
+    }
+
+    const batches = parseBatches(req.body.batches, test_cases.map((tc: any) => tc.batch));
+    if (typeof batches === 'string') {
+      return res.status(400).json({ success: false, error: batches });
+    }
+
     // Insert problem
     const { data: problem, error: problemError } = await supabaseAdmin
       .from('problems')
       .insert([{
         title: title.trim(),
         description: description.trim(),
-        contest_id: contest_id || null
+        contest_id: contest_id || null,
+        time_limit_ms: limits.timeLimitMs,
+        memory_limit_mb: limits.memoryLimitMb,
+        ...checkerSettings,
+        batches
       }])
       .select()
       .single();
@@ -1066,18 +1330,27 @@ app.post('/api/admin/problems', authenticateUser, requireAdmin, async (req, res)
     }
 
     // Insert test cases
-    const testCasesToInsert = test_cases.map((tc: any) => ({
+    const testCasesToInsert = test_cases.map((tc: any, index: number) => ({
       problem_id: problem.id,
-      input: tc.input.trim(),
-      expected_output: tc.expected_output.trim()
+      input: tc.input,
+      expected_output: tc.expected_output,
+      batch: batches.length > 0 ? Number(tc.batch) : null,
+      is_sample: Boolean(tc.is_sample),
+      position: index
     }));
 
-    const { error: testCasesError } = await supabaseAdmin
-      .from('test_cases')
-      .insert(testCasesToInsert);
+    if (testCasesToInsert.length > 0) {
+      const { error: testCasesError } = await supabaseAdmin
+        .from('test_cases')
+        .insert(testCasesToInsert);
 
-    if (testCasesError) {
-      return res.status(500).json({ success: false, error: 'Failed to create test cases' });
+      if (testCasesError) {
+        return res.status(500).json({ success: false, error: 'Failed to create test cases' });
+      }
+    }
+
+    if (problem.contest_id) {
+      invalidateStandings(problem.contest_id);
     }
 
     res.json({ success: true, data: problem });
@@ -1115,18 +1388,34 @@ app.put('/api/admin/contests/:contestId/status', authenticateUser, requireAdmin,
 app.put('/api/admin/contests/:contestId', authenticateUser, requireAdmin, async (req, res) => {
   try {
     const { contestId } = req.params;
-    const { title, description, end_time } = req.body;
+    const { title, description, start_time, end_time, window_minutes, freeze_minutes, scoring_mode, rated } = req.body;
 
     if (!title || !description) {
       return res.status(400).json({ success: false, error: 'Missing required fields' });
     }
 
+    if (scoring_mode !== undefined && !SCORING_MODES.includes(scoring_mode)) {
+      return res.status(400).json({ success: false, error: `Unknown scoring mode: ${scoring_mode}` });
+    }
+
+    const schedule = parseContestSchedule(start_time, end_time, window_minutes, freeze_minutes);
+    if (typeof schedule === 'string') {
+      return res.status(400).json({ success: false, error: schedule });
+    }
+
+    // Ratings are calculated from the final standings, so rated contests have to end
+    if (rated && !schedule.end_time) {
+      return res.status(400).json({ success: false, error: 'Only contests with an end time can be rated' });
+    }
+
     const { data, error } = await supabaseAdmin
       .from('contests')
       .update({
         title: title.trim(),
         description: description.trim(),
-        end_time: end_time || null
+        ...schedule,
+        ...(scoring_mode ? { scoring_mode } : {}),
+        ...(rated !== undefined ? { rated: Boolean(rated) } : {})
       })
       .eq('id', contestId)
       .select()
@@ -1147,18 +1436,38 @@ app.put('/api/admin/contests/:contestId', authenticateUser, requireAdmin, async
 app.put('/api/admin/problems/:problemId', authenticateUser, requireAdmin, async (req, res) => {
   try {
     const { problemId } = req.params;
-    const { title, description, contest_id } = req.body;
+    const { title, description, contest_id, time_limit_ms, memory_limit_mb } = req.body;
 
     if (!title || !description) {
       return res.status(400).json({ success: false, error: 'Missing required fields' });
     }
 
+    const limits = parseProblemLimits(time_limit_ms, memory_limit_mb);
+    if (typeof limits === 'string') {
+      return res.status(400).json({ success: false, error: limits });
+    }
+
+    const checkerSettings = parseCheckerSettings(req.body);
+    if (typeof checkerSettings === 'string') {
+      return res.status(400).json({ success: false, error: checkerSettings });
+    }
+
+    // The problem may move to another contest, which changes the standings of both
+    const { data: previous } = await supabaseAdmin
+      .from('problems')
+      .select('contest_id')
+      .eq('id', problemId)
+      .maybeSingle();
+
     const { data, error } = await supabaseAdmin
       .from('problems')
       .update({
         title: title.trim(),
         description: description.trim(),
-        contest_id: contest_id || null
+        contest_id: contest_id || null,
+        time_limit_ms: limits.timeLimitMs,
+        memory_limit_mb: limits.memoryLimitMb,
+        ...checkerSettings
       })
       .eq('id', problemId)
       .select()
@@ -1168,6 +1477,12 @@ app.put('/api/admin/problems/:problemId', authenticateUser, requireAdmin, async
       return res.status(500).json({ success: false, error: 'Failed to update problem' });
     }
 
+    for (const contestId of [previous?.contest_id, data.contest_id]) {
+      if (contestId) {
+        invalidateStandings(contestId);
+      }
+    }
+
     res.json({ success: true, data });
   } catch (error) {
     console.error('Error updating problem:', error);
@@ -1180,6 +1495,12 @@ app.delete('/api/admin/contests/:contestId', authenticateUser, requireAdmin, asy
   try {
     const { contestId } = req.params;
 
+    const { data: problems } = await supabaseAdmin
+      .from('problems')
+      .select('id')
+      .eq('contest_id', contestId);
+    const testFilePaths = await getTestFilePaths((problems || []).map(p => p.id));
+
     const { error } = await supabaseAdmin
       .from('contests')
       .delete()
@@ -1189,6 +1510,9 @@ app.delete('/api/admin/contests/:contestId', authenticateUser, requireAdmin, asy
       return res.status(500).json({ success: false, error: 'Failed to delete contest' });
     }
 
+    invalidateStandings(contestId);
+    await removeTestFiles(supabaseAdmin, testFilePaths);
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting contest:', error);
@@ -1200,16 +1524,25 @@ app.delete('/api/admin/contests/:contestId', authenticateUser, requireAdmin, asy
 app.delete('/api/admin/problems/:problemId', authenticateUser, requireAdmin, async (req, res) => {
   try {
     const { problemId } = req.params;
+    const testFilePaths = await getTestFilePaths([problemId]);
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('problems')
       .delete()
-      .eq('id', problemId);
+      .eq('id', problemId)
+      .select('contest_id')
+      .maybeSingle();
 
     if (error) {
       return res.status(500).json({ success: false, error: 'Failed to delete problem' });
     }
 
+    if (deleted?.contest_id) {
+      invalidateStandings(deleted.contest_id);
+    }
+
+    await removeTestFiles(supabaseAdmin, testFilePaths);
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting problem:', error);
@@ -1217,175 +1550,158 @@ app.delete('/api/admin/problems/:problemId', authenticateUser, requireAdmin, asy
   }
 });
 
-// Note: Profile and admin user creation are now handled by /api/users/finalize-signup
-
-// Handle preflight requests for profile endpoint
-app.options('/api/profile', (req, res) => {
+app.options('/api/admin/problems/import', (req, res) => {
   res.header('Access-Control-Allow-Origin', req.headers.origin);
-  res.header('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   res.header('Access-Control-Allow-Credentials', 'true');
   res.status(200).end();
 });
 
-// Get user profile
-app.get('/api/profile', authenticateUser, async (req, res) => {
+// Create a problem from a Kattis problem package (admin only)
+app.post('/api/admin/problems/import', authenticateUser, requireAdmin, archiveUpload.single('package'), async (req, res) => {
+  const packageFile = req.file;
   try {
-    const userId = req.user?.id;
+    if (!packageFile) {
+      return res.status(400).json({ success: false, error: 'Missing problem package' });
+    }
+    if (path.extname(packageFile.originalname).toLowerCase() !== '.zip') {
+      return res.status(400).json({ success: false, error: 'Problem packages must be uploaded as a .zip file' });
+    }
+    if (packageFile.size > MAX_TEST_ARCHIVE_BYTES) {
+      return res.status(400).json({ success: false, error: 'Problem packages can be at most 256 MB' });
+    }
 
-    const { data, error } = await supabaseAdmin
-      .from('user_profiles')
-      .select('*')
-      .eq('user_id', userId)
+    let problemPackage;
+    try {
+      problemPackage = readProblemPackage(packageFile.path);
+    } catch (error) {
+      if (error instanceof ProblemPackageError) {
+        return res.status(400).json({ success: false, error: 'The problem package is invalid', errors: error.errors });
+      }
+      throw error;
+    }
+
+    // The package's settings go through the same checks as the problem form
+    const errors: PackageFileError[] = [];
+    const limits = parseProblemLimits(problemPackage.timeLimitMs, problemPackage.memoryLimitMb);
+    if (typeof limits === 'string') {
+      errors.push({ file: 'problem.yaml', message: limits });
+    }
+    const checkerSettings = parseCheckerSettings(problemPackage.checker);
+    if (typeof checkerSettings === 'string') {
+      errors.push({ file: 'problem.yaml', message: checkerSettings });
+    }
+    const batches = parseBatches(problemPackage.batches, problemPackage.testCases.map(tc => tc.batch));
+    if (typeof batches === 'string') {
+      errors.push({ file: 'data/secret', message: batches });
+    }
+    if (typeof limits === 'string' || typeof checkerSettings === 'string' || typeof batches === 'string') {
+      return res.status(400).json({ success: false, error: 'The problem package is invalid', errors });
+    }
+
+    const { data: problem, error: problemError } = await supabaseAdmin
+      .from('problems')
+      .insert([{
+        title: problemPackage.title,
+        description: problemPackage.description,
+        contest_id: req.body.contest_id || null,
+        time_limit_ms: limits.timeLimitMs,
+        memory_limit_mb: limits.memoryLimitMb,
+        ...checkerSettings,
+        batches
+      }])
+      .select()
       .single();
 
-    if (error) {
-      return res.status(404).json({ success: false, error: 'Profile not found' });
+    if (problemError) {
+      return res.status(500).json({ success: false, error: 'Failed to create problem' });
     }
 
-    res.json({ success: true, data });
-  } catch (error) {
-    console.error('Error fetching profile:', error);
-    res.status(500).json({ success: false, error: 'Internal server error' });
-  }
-});
-
-// Profile update route
-app.put('/api/profile', authenticateUser, async (req, res) => {
-  try {
-    const userId = req.user?.id;
-    const { username } = req.body;
-
-    if (!username || username.trim().length === 0) {
-      return res.status(400).json({ success: false, error: 'Username is required' });
-    }
+    let testCasesToInsert: any[] = [];
+    try {
+      testCasesToInsert = await storeTestCases(supabaseAdmin, problem.id, problemPackage.testCases);
 
-    // Check if username is already taken by another user
-    const { data: existingUser, error: checkError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('username')
-      .eq('username', username.trim())
-      .neq('user_id', userId)
-      .single();
+      const { error: testCasesError } = await supabaseAdmin
+        .from('test_cases')
+        .insert(testCasesToInsert);
 
-    if (checkError === null && existingUser) {
-      return res.status(400).json({ success: false, error: 'Username is already taken' });
+      if (testCasesError) {
+        throw testCasesError;
+      }
+    } catch (error) {
+      // Don't leave a problem without its test data behind
+      console.error('Error storing imported test data:', error);
+      await supabaseAdmin.from('problems').delete().eq('id', problem.id);
+      await removeTestFiles(supabaseAdmin, testCasesToInsert.flatMap(tc => [tc.input_path, tc.output_path]));
+      return res.status(500).json({ success: false, error: 'Failed to store the test data' });
     }
 
-    // Update username
-    const { data, error } = await supabaseAdmin
-      .from('user_profiles')
-      .update({ username: username.trim() })
-      .eq('user_id', userId)
-      .select()
-      .single();
-
-    if (error) {
-      return res.status(500).json({ success: false, error: 'Failed to update profile' });
+    if (problem.contest_id) {
+      invalidateStandings(problem.contest_id);
     }
 
-    res.json({ success: true, data });
+    res.json({
+      success: true,
+      data: {
+        problem: toPublicProblem(problem),
+        testCases: testCasesToInsert.length,
+        samples: testCasesToInsert.filter(tc => tc.is_sample).length
+      }
+    });
   } catch (error) {
-    console.error('Error updating profile:', error);
+    console.error('Error importing problem package:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
+  } finally {
+    if (packageFile) cleanupUpload(packageFile.path);
   }
 });
 
-// Get user's contest participations
-app.get('/api/participations', authenticateUser, async (req, res) => {
-  try {
-    const userId = req.user?.id;
-
-    if (!userId) {
-      return res.status(400).json({ success: false, error: 'User ID is required' });
-    }
-
-    const { data: participations, error } = await supabaseAdmin
-      .from('contest_participants')
-      .select('*')
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error fetching participations:', error);
-      return res.status(500).json({ success: false, error: 'Failed to fetch participations' });
-    }
-
-    res.json({ success: true, data: participations || [] });
-  } catch (error) {
-    console.error('Error fetching participations:', error);
-    res.status(500).json({ success: false, error: 'Internal server error' });
-  }
+app.options('/api/admin/problems/:problemId/export', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
 });
 
-// Join contest
-app.post('/api/contests/:contestId/join', authenticateUser, async (req, res) => {
+// Download a problem with its statement, limits, checker and test data as a Kattis problem package (admin only)
+app.get('/api/admin/problems/:problemId/export', authenticateUser, requireAdmin, async (req, res) => {
   try {
-    const { contestId } = req.params;
-    const userId = req.user?.id;
-
-    // Check if user is email verified
-    const { data: verifiedUser, error: verifiedError } = await supabaseAdmin
-      .from('verified_users')
-      .select('is_verified')
-      .eq('user_id', userId)
-      .single();
-
-    if (verifiedError || !verifiedUser || !verifiedUser.is_verified) {
-      return res.status(403).json({ 
-        success: false, 
-        error: 'Email verification required to join contests. Please verify your email first.',
-        requiresVerification: true
-      });
-    }
+    const { problemId } = req.params;
 
-    // Check if contest exists and is active
-    const { data: contest, error: contestError } = await supabaseAdmin
-      .from('contests')
+    const { data: problem, error: problemError } = await supabaseAdmin
+      .from('problems')
       .select('*')
-      .eq('id', contestId)
-      .eq('is_active', true)
+      .eq('id', problemId)
       .single();
 
-    if (contestError || !contest) {
-      return res.status(404).json({ success: false, error: 'Contest not found or not active' });
+    if (problemError || !problem) {
+      return res.status(404).json({ success: false, error: 'Problem not found' });
     }
 
-    // Check if user is already participating
-    const { data: existingParticipation, error: checkError } = await supabaseAdmin
-      .from('contest_participants')
+    const { data: testCases, error: testCasesError } = await supabaseAdmin
+      .from('test_cases')
       .select('*')
-      .eq('contest_id', contestId)
-      .eq('user_id', userId)
-      .single();
+      .eq('problem_id', problemId)
+      .order('position', { ascending: true });
 
-    if (checkError === null && existingParticipation) {
-      return res.status(400).json({ success: false, error: 'Already participating in this contest' });
+    if (testCasesError) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch test cases' });
     }
 
-    // Join the contest
-    const { data: participation, error: joinError } = await supabaseAdmin
-      .from('contest_participants')
-      .insert([{
-        contest_id: contestId,
-        user_id: userId
-      }])
-      .select()
-      .single();
-
-    if (joinError) {
-      console.error('Error joining contest:', joinError);
-      return res.status(500).json({ success: false, error: 'Failed to join contest' });
-    }
+    const archive = writeProblemPackage(problem, await loadTestCaseData(supabaseAdmin, orderTestCases(problem, testCases)));
 
-    res.json({ success: true, data: participation });
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${toPackageName(problem.title)}.zip"`);
+    res.send(archive);
   } catch (error) {
-    console.error('Error joining contest:', error);
+    console.error('Error exporting problem package:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-// Handle preflight requests for judge endpoint
-app.options('/judge', (req, res) => {
+app.options('/api/admin/problems/:problemId/test-data', (req, res) => {
   res.header('Access-Control-Allow-Origin', req.headers.origin);
   res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
@@ -1393,41 +1709,22 @@ app.options('/judge', (req, res) => {
   res.status(200).end();
 });
 
-// Judge endpoint for code execution
-app.post('/judge', upload.single('code'), async (req, res) => {
+// Replace a problem's test cases with the pairs in a zip archive, stored byte for byte (admin only)
+app.post('/api/admin/problems/:problemId/test-data', authenticateUser, requireAdmin, archiveUpload.single('archive'), async (req, res) => {
+  const archive = req.file;
   try {
-    console.log('Judge request received:', req.body);
-    console.log('File received:', req.file);
-    
-    const { problemId, userId } = req.body;
-    const codeFile = req.file;
+    const { problemId } = req.params;
 
-    if (!codeFile || !problemId || !userId) {
-      console.log('Missing code file, problem ID, or user ID');
-      return res.status(400).json({ error: 'Missing code file, problem ID, or user ID' });
+    if (!archive) {
+      return res.status(400).json({ success: false, error: 'Missing test data archive' });
     }
-
-    // Check if user is email verified before allowing submissions
-    const { data: verifiedUser, error: verifiedError } = await supabaseAdmin
-      .from('verified_users')
-      .select('is_verified')
-      .eq('user_id', userId)
-      .single();
-
-    if (verifiedError || !verifiedUser || !verifiedUser.is_verified) {
-      // Clean up uploaded file
-      try {
-        fs.unlinkSync(codeFile.path);
-      } catch (error) {
-        console.log('Error cleaning up file:', error);
-      }
-      return res.status(403).json({ 
-        error: 'Email verification required to submit solutions. Please verify your email first.',
-        requiresVerification: true
-      });
+    if (path.extname(archive.originalname).toLowerCase() !== '.zip') {
+      return res.status(400).json({ success: false, error: 'Test data must be uploaded as a .zip file' });
+    }
+    if (archive.size > MAX_TEST_ARCHIVE_BYTES) {
+      return res.status(400).json({ success: false, error: 'Test data archives can be at most 256 MB' });
     }
 
-    // Get problem test cases from Supabase
     const { data: problem, error: problemError } = await supabaseAdmin
       .from('problems')
       .select('*')
@@ -1435,152 +1732,1772 @@ app.post('/judge', upload.single('code'), async (req, res) => {
       .single();
 
     if (problemError || !problem) {
-      console.log('Problem not found:', problemError);
-      return res.status(404).json({ error: 'Problem not found' });
+      return res.status(404).json({ success: false, error: 'Problem not found' });
     }
 
-    // Get test cases for this problem
-    const { data: testCases, error: testCasesError } = await supabaseAdmin
-      .from('test_cases')
-      .select('*')
-      .eq('problem_id', problemId);
+    let archiveTestCases;
+    try {
+      archiveTestCases = readTestArchive(archive.path);
+    } catch (error) {
+      if (error instanceof TestArchiveError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
 
-    if (testCasesError) {
-      console.log('Failed to fetch test cases:', testCasesError);
-      return res.status(500).json({ error: 'Failed to fetch test cases' });
+    if (archiveTestCases.length === 0) {
+      return res.status(400).json({ success: false, error: 'The archive has no test cases' });
     }
 
-    console.log(`Found ${testCases.length} test cases for problem ${problemId}`);
+    // Batch folders are checked against the problem's batches, the same way pasted test cases are
+    const batchError = parseBatches(problem.batches, archiveTestCases.map(tc => tc.batch));
+    if (typeof batchError === 'string') {
+      return res.status(400).json({ success: false, error: batchError });
+    }
 
-    let passedTests = 0;
-    const totalTests = testCases.length;
-    const results: TestResult[] = [];
+    // The old test cases stay until the new ones are in, so a failure never leaves the problem without tests
+    const { data: previousTestCases, error: previousError } = await supabaseAdmin
+      .from('test_cases')
+      .select('id, input_path, output_path')
+      .eq('problem_id', problemId);
 
-    // Run code against each test case
-    for (const testCase of testCases) {
-      try {
-        const result = await runCodeAgainstTestCase(codeFile.path, testCase);
-        results.push(result);
-        if (result.passed) {
-          passedTests++;
-        }
-      } catch (error) {
-        console.log('Error running test case:', error);
-        results.push({
-          testCaseId: testCase.id,
-          passed: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+    if (previousError) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch test cases' });
     }
 
-    // Clean up uploaded file
+    let testCasesToInsert;
     try {
-      fs.unlinkSync(codeFile.path);
+      testCasesToInsert = await storeTestCases(supabaseAdmin, problemId, archiveTestCases);
     } catch (error) {
-      console.log('Error cleaning up file:', error);
+      console.error('Error storing uploaded test data:', error);
+      return res.status(500).json({ success: false, error: 'Failed to store the test data' });
     }
 
-    const response = {
-      score: `${passedTests}/${totalTests}`,
-      passedTests,
-      totalTests,
-      results
-    };
+    const newTestFilePaths = testCasesToInsert.flatMap(tc => [tc.input_path, tc.output_path]);
+
+    const { data: inserted, error: insertError } = await supabaseAdmin
+      .from('test_cases')
+      .insert(testCasesToInsert)
+      .select('id');
+
+    if (insertError) {
+      console.error('Error inserting uploaded test cases:', insertError);
+      await removeTestFiles(supabaseAdmin, newTestFilePaths);
+      return res.status(500).json({ success: false, error: 'Failed to create test cases' });
+    }
 
-    console.log('Judge response:', response);
-    res.json(response);
+    const { error: deleteError } = previousTestCases.length > 0
+      ? await supabaseAdmin.from('test_cases').delete().in('id', previousTestCases.map(tc => tc.id))
+      : { error: null };
 
+    if (deleteError) {
+      // Roll back to the old test cases
+      console.error('Error removing replaced test cases:', deleteError);
+      await supabaseAdmin.from('test_cases').delete().in('id', inserted.map(tc => tc.id));
+      await removeTestFiles(supabaseAdmin, newTestFilePaths);
+      return res.status(500).json({ success: false, error: 'Failed to replace test cases' });
+    }
+
+    await removeTestFiles(
+      supabaseAdmin,
+      previousTestCases.flatMap(tc => [tc.input_path, tc.output_path]).filter(Boolean)
+    );
+
+    // Problems scored per test are worth as many points as they have tests
+    if (problem.contest_id) {
+      invalidateStandings(problem.contest_id);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        testCases: testCasesToInsert.length,
+        samples: testCasesToInsert.filter(tc => tc.is_sample).length
+      }
+    });
   } catch (error) {
-    console.error('Judge error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    console.error('Error uploading test data:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  } finally {
+    if (archive) cleanupUpload(archive.path);
   }
 });
 
-// Helper function to run code against a test case
-async function runCodeAgainstTestCase(codeFilePath: string, testCase: any): Promise<TestResult> {
-  return new Promise((resolve, reject) => {
-    try {
-      console.log(`Running test case ${testCase.id} with input: ${testCase.input}`);
-      
-      // Spawn Python process
-      const pythonProcess = spawn('python3', [codeFilePath], {
-        stdio: ['pipe', 'pipe', 'pipe'],
-        timeout: 5000 // 5 second timeout
-      });
+app.options('/api/admin/submissions/:submissionId/rejudge', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
 
-      let stdout = '';
-      let stderr = '';
+app.options('/api/admin/problems/:problemId/rejudge', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
 
-      // Collect stdout
-      pythonProcess.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
+app.options('/api/admin/contests/:contestId/rejudge', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
 
-      // Collect stderr
-      pythonProcess.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
+app.options('/api/admin/rejudges/:rejudgeId', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
 
-      // Handle process completion
-      pythonProcess.on('close', (code) => {
-        console.log(`Python process exited with code ${code}`);
-        console.log(`stdout: "${stdout}"`);
-        console.log(`stderr: "${stderr}"`);
-
-        if (code !== 0) {
-          resolve({
-            testCaseId: testCase.id,
-            passed: false,
-            error: stderr || `Process exited with code ${code}`,
-            input: testCase.input
-          });
-          return;
-        }
+// Rejudge a single submission against the problem's current test data (admin only)
+app.post('/api/admin/submissions/:submissionId/rejudge', authenticateUser, requireAdmin, async (req, res) => {
+  try {
+    const { submissionId } = req.params;
 
-        // Compare output with expected output
-        const actualOutput = stdout.trim();
-        const expectedOutput = testCase.expected_output.trim();
-        const passed = actualOutput === expectedOutput;
+    const { data: submissions, error } = await supabaseAdmin
+      .from('submissions')
+      .select(REJUDGE_SUBMISSION_FIELDS)
+      .eq('id', submissionId);
 
-        console.log(`Expected: "${expectedOutput}", Actual: "${actualOutput}", Passed: ${passed}`);
+    if (error) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch submission' });
+    }
+    if (submissions.length === 0) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
 
-        resolve({
-          testCaseId: testCase.id,
-          passed,
-          actualOutput,
-          expectedOutput,
-          input: testCase.input
-        });
-      });
+    const rejudgeId = await queueRejudge('submission', submissionId, submissions);
+    res.status(202).json({ success: true, data: getRejudgeSummary(rejudgeId) });
+  } catch (error) {
+    console.error('Error rejudging submission:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
 
-      // Handle process errors
-      pythonProcess.on('error', (error) => {
-        console.log('Python process error:', error);
-        resolve({
-          testCaseId: testCase.id,
-          passed: false,
-          error: error.message,
-          input: testCase.input
-        });
-      });
+// Rejudge every submission to a problem (admin only)
+app.post('/api/admin/problems/:problemId/rejudge', authenticateUser, requireAdmin, async (req, res) => {
+  try {
+    const { problemId } = req.params;
 
-      // Send input to stdin
-      pythonProcess.stdin.write(testCase.input);
-      pythonProcess.stdin.end();
+    const { data: problem, error: problemError } = await supabaseAdmin
+      .from('problems')
+      .select('id')
+      .eq('id', problemId)
+      .single();
 
-    } catch (error) {
-      console.log('Error in runCodeAgainstTestCase:', error);
-      resolve({
+    if (problemError || !problem) {
+      return res.status(404).json({ success: false, error: 'Problem not found' });
+    }
+
+    const { data: submissions, error } = await supabaseAdmin
+      .from('submissions')
+      .select(REJUDGE_SUBMISSION_FIELDS)
+      .eq('problem_id', problemId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch submissions' });
+    }
+
+    const rejudgeId = await queueRejudge('problem', problemId, submissions);
+    res.status(202).json({ success: true, data: getRejudgeSummary(rejudgeId) });
+  } catch (error) {
+    console.error('Error rejudging problem:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Rejudge every submission to a contest's problems, including practice ones (admin only)
+app.post('/api/admin/contests/:contestId/rejudge', authenticateUser, requireAdmin, async (req, res) => {
+  try {
+    const { contestId } = req.params;
+
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
+      .select('id')
+      .eq('id', contestId)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found' });
+    }
+
+    const { data: problems, error: problemsError } = await supabaseAdmin
+      .from('problems')
+      .select('id')
+      .eq('contest_id', contestId);
+
+    if (problemsError) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch problems' });
+    }
+
+    // A contest without problems has nothing to rejudge
+    if (problems.length === 0) {
+      const rejudgeId = await queueRejudge('contest', contestId, []);
+      return res.status(202).json({ success: true, data: getRejudgeSummary(rejudgeId) });
+    }
+
+    const { data: submissions, error } = await supabaseAdmin
+      .from('submissions')
+      .select(REJUDGE_SUBMISSION_FIELDS)
+      .in('problem_id', problems.map(p => p.id))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({ success: false, error: 'Failed to fetch submissions' });
+    }
+
+    const rejudgeId = await queueRejudge('contest', contestId, submissions);
+    res.status(202).json({ success: true, data: getRejudgeSummary(rejudgeId) });
+  } catch (error) {
+    console.error('Error rejudging contest:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get a rejudge's progress and the results it changed so far (admin only)
+app.get('/api/admin/rejudges/:rejudgeId', authenticateUser, requireAdmin, (req, res) => {
+  const summary = getRejudgeSummary(req.params.rejudgeId);
+  if (!summary) {
+    return res.status(404).json({ success: false, error: 'Rejudge not found' });
+  }
+  res.json({ success: true, data: summary });
+});
+
+app.options('/api/admin/contests/:contestId/unfreeze', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Reveal the next hidden result of a frozen contest, or with { all: true } every result at once (admin only)
+app.post('/api/admin/contests/:contestId/unfreeze', authenticateUser, requireAdmin, async (req, res) => {
+  try {
+    const { contestId } = req.params;
+
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
+      .select('*')
+      .eq('id', contestId)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found' });
+    }
+
+    if (!getFreezeTime(contest)) {
+      return res.status(400).json({ success: false, error: 'This contest does not freeze its scoreboard' });
+    }
+    if (getContestPhase(contest) !== 'ended') {
+      return res.status(400).json({ success: false, error: 'The scoreboard can only be unfrozen after the contest ends' });
+    }
+    if (!isBoardFrozen(contest)) {
+      return res.status(400).json({ success: false, error: 'The scoreboard is already unfrozen' });
+    }
+
+    if (req.body?.all) {
+      await unfreezeBoard(supabaseAdmin, contest);
+      notifyLeaderboardChanged(contestId);
+      return res.json({ success: true, data: { revealed: null, remaining: 0 } });
+    }
+
+    const revealed = await revealNextResult(supabaseAdmin, contest);
+    notifyLeaderboardChanged(contestId);
+    res.json({ success: true, data: { revealed, remaining: revealed?.remaining ?? 0 } });
+  } catch (error) {
+    console.error('Error unfreezing scoreboard:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.options('/api/admin/contests/:contestId/finalize-ratings', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Calculate the rating changes of a rated contest from its final standings (admin only)
+app.post('/api/admin/contests/:contestId/finalize-ratings', authenticateUser, requireAdmin, async (req, res) => {
+  try {
+    const { contestId } = req.params;
+
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
+      .select('*')
+      .eq('id', contestId)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found' });
+    }
+
+    if (!contest.rated) {
+      return res.status(400).json({ success: false, error: 'This contest is not rated' });
+    }
+    if (contest.ratings_finalized_at) {
+      return res.status(400).json({ success: false, error: 'Ratings for this contest have already been finalized' });
+    }
+    if (getContestPhase(contest) !== 'ended') {
+      return res.status(400).json({ success: false, error: 'Ratings can only be finalized after the contest ends' });
+    }
+    if (isBoardFrozen(contest)) {
+      return res.status(400).json({ success: false, error: 'Unfreeze the scoreboard before finalizing ratings' });
+    }
+
+    const standings = await getRatedStandings(supabaseAdmin, contest);
+    const changes = await finalizeRatings(supabaseAdmin, contest, standings);
+    if (!changes) {
+      return res.status(400).json({ success: false, error: 'Ratings for this contest have already been finalized' });
+    }
+
+    invalidateStandings(contestId);
+    notifyLeaderboardChanged(contestId);
+    res.json({ success: true, data: { rated: changes.length } });
+  } catch (error) {
+    console.error('Error finalizing ratings:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Note: Profile and admin user creation are now handled by /api/users/finalize-signup
+
+// Handle preflight requests for profile endpoint
+app.options('/api/profile', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Get user profile
+app.get('/api/profile', authenticateUser, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    const { data, error } = await supabaseAdmin
+      .from('user_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      return res.status(404).json({ success: false, error: 'Profile not found' });
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Profile update route
+app.put('/api/profile', authenticateUser, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { username } = req.body;
+
+    if (!username || username.trim().length === 0) {
+      return res.status(400).json({ success: false, error: 'Username is required' });
+    }
+
+    // Check if username is already taken by another user
+    const { data: existingUser, error: checkError } = await supabaseAdmin
+      .from('user_profiles')
+      .select('username')
+      .eq('username', username.trim())
+      .neq('user_id', userId)
+      .single();
+
+    if (checkError === null && existingUser) {
+      return res.status(400).json({ success: false, error: 'Username is already taken' });
+    }
+
+    // Update username
+    const { data, error } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ username: username.trim() })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      return res.status(500).json({ success: false, error: 'Failed to update profile' });
+    }
+
+    renameParticipant(data.user_id, data.username);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// A user's rating after each rated contest they took part in, oldest first
+app.get('/api/users/:username/rating-history', async (req, res) => {
+  try {
+    const { username } = req.params;
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('user_profiles')
+      .select('user_id, username')
+      .eq('username', username)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Error fetching profile:', profileError);
+      return res.status(500).json({ success: false, error: 'Failed to fetch rating history' });
+    }
+    if (!profile) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const { data: changes, error: changesError } = await supabaseAdmin
+      .from('rating_changes')
+      .select('contest_id, rank, performance, old_rating, new_rating, created_at')
+      .eq('user_id', profile.user_id)
+      .order('created_at', { ascending: true });
+
+    if (changesError) {
+      console.error('Error fetching rating changes:', changesError);
+      return res.status(500).json({ success: false, error: 'Failed to fetch rating history' });
+    }
+
+    const { data: contests } = await supabaseAdmin
+      .from('contests')
+      .select('id, title')
+      .in('id', changes.map(change => change.contest_id));
+
+    res.json({
+      success: true,
+      data: {
+        username: profile.username,
+        rating: changes.length > 0 ? changes[changes.length - 1].new_rating : null, // Null until the first rated contest
+        history: changes.map(change => ({
+          ...change,
+          contest_title: (contests || []).find(contest => contest.id === change.contest_id)?.title || 'Deleted contest'
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching rating history:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get user's contest participations
+app.get('/api/participations', authenticateUser, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'User ID is required' });
+    }
+
+    const { data: participations, error } = await supabaseAdmin
+      .from('contest_participants')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching participations:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch participations' });
+    }
+
+    res.json({ success: true, data: participations || [] });
+  } catch (error) {
+    console.error('Error fetching participations:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Join contest
+app.post('/api/contests/:contestId/join', authenticateUser, async (req, res) => {
+  try {
+    const { contestId } = req.params;
+    const userId = req.user?.id;
+
+    // Check if user is email verified
+    const { data: verifiedUser, error: verifiedError } = await supabaseAdmin
+      .from('verified_users')
+      .select('is_verified')
+      .eq('user_id', userId)
+      .single();
+
+    if (verifiedError || !verifiedUser || !verifiedUser.is_verified) {
+      return res.status(403).json({ 
+        success: false, 
+        error: 'Email verification required to join contests. Please verify your email first.',
+        requiresVerification: true
+      });
+    }
+
+    // Check if contest exists and is active
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
+      .select('*')
+      .eq('id', contestId)
+      .eq('is_active', true)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found or not active' });
+    }
+
+    // Joining is open from the time a contest is listed until it ends
+    if (getContestPhase(contest) === 'ended') {
+      return res.status(403).json({ success: false, error: 'This contest has ended' });
+    }
+
+    // Check if user is already participating
+    const { data: existingParticipation, error: checkError } = await supabaseAdmin
+      .from('contest_participants')
+      .select('*')
+      .eq('contest_id', contestId)
+      .eq('user_id', userId)
+      .single();
+
+    if (checkError === null && existingParticipation) {
+      return res.status(400).json({ success: false, error: 'Already participating in this contest' });
+    }
+
+    // Join the contest
+    const { data: participation, error: joinError } = await supabaseAdmin
+      .from('contest_participants')
+      .insert([{
+        contest_id: contestId,
+        user_id: userId
+      }])
+      .select()
+      .single();
+
+    if (joinError) {
+      console.error('Error joining contest:', joinError);
+      return res.status(500).json({ success: false, error: 'Failed to join contest' });
+    }
+
+    await updateParticipantStandings(supabaseAdmin, contestId, userId!);
+    notifyLeaderboardChanged(contestId);
+    res.json({ success: true, data: participation });
+  } catch (error) {
+    console.error('Error joining contest:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.options('/api/contests/:contestId/start', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Start the user's personal window in a windowed contest
+app.post('/api/contests/:contestId/start', authenticateUser, async (req, res) => {
+  try {
+    const { contestId } = req.params;
+    const userId = req.user?.id;
+
+    const { data: participation, error: participationError } = await supabaseAdmin
+      .from('contest_participants')
+      .select('*')
+      .eq('contest_id', contestId)
+      .eq('user_id', userId)
+      .single();
+
+    if (participationError || !participation) {
+      return res.status(403).json({ success: false, error: 'Not participating in this contest' });
+    }
+
+    const { data: contest, error: contestError } = await supabaseAdmin
+      .from('contests')
+      .select('*')
+      .eq('id', contestId)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({ success: false, error: 'Contest not found' });
+    }
+
+    if (!contest.window_minutes) {
+      return res.status(400).json({ success: false, error: 'This contest has no personal time window' });
+    }
+
+    const phase = getParticipantPhase(contest, participation);
+    if (phase !== 'window-not-started') {
+      const error = phase === 'upcoming' || phase === 'ended'
+        ? PHASE_SUBMISSION_ERRORS[phase]
+        : 'Your window has already started';
+      return res.status(400).json({ success: false, error });
+    }
+
+    // Only the first start counts, even if the button is clicked twice
+    const { data: started, error: startError } = await supabaseAdmin
+      .from('contest_participants')
+      .update({ window_started_at: new Date().toISOString() })
+      .eq('id', participation.id)
+      .is('window_started_at', null)
+      .select()
+      .maybeSingle();
+
+    if (startError) {
+      console.error('Error starting contest window:', startError);
+      return res.status(500).json({ success: false, error: 'Failed to start your window' });
+    }
+    if (!started) {
+      return res.status(400).json({ success: false, error: 'Your window has already started' });
+    }
+
+    await updateParticipantStandings(supabaseAdmin, contestId, userId!);
+    notifyLeaderboardChanged(contestId);
+
+    res.json({
+      success: true,
+      data: { participation: started, window_ends_at: getWindowEnd(contest, started)!.toISOString() }
+    });
+  } catch (error) {
+    console.error('Error starting contest window:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Handle preflight requests for judge endpoint
+app.options('/judge', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Judge endpoint: validates and queues a submission, returning its ID right away.
+// The code comes either as an uploaded file ("code") or as text from the editor ("source").
+app.post('/judge', authenticateUser, codeUpload.single('code'), async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { problemId } = req.body;
+    const languageId = req.body.language || DEFAULT_LANGUAGE_ID;
+    const codeFile = req.file;
+    const sourceText = req.body.source;
+
+    if ((!codeFile && typeof sourceText !== 'string') || !problemId) {
+      if (codeFile) cleanupUpload(codeFile.path);
+      return res.status(400).json({ error: 'Missing source code or problem ID' });
+    }
+
+    const language = getLanguage(languageId);
+    if (!language) {
+      if (codeFile) cleanupUpload(codeFile.path);
+      return res.status(400).json({ error: `Unsupported language: ${languageId}` });
+    }
+
+    if (codeFile && path.extname(codeFile.originalname).toLowerCase() !== language.extension) {
+      cleanupUpload(codeFile.path);
+      return res.status(400).json({ error: `${language.name} submissions must be ${language.extension} files` });
+    }
+
+    const source = codeFile ? fs.readFileSync(codeFile.path) : Buffer.from(sourceText, 'utf8');
+    if (codeFile) cleanupUpload(codeFile.path);
+
+    if (!source.toString('utf8').trim()) {
+      return res.status(400).json({ error: 'Source code is empty' });
+    }
+    if (source.length > MAX_SOURCE_BYTES) {
+      return res.status(400).json({ error: 'Source code must be at most 256 KB' });
+    }
+
+    // Check if user is email verified before allowing submissions
+    const { data: verifiedUser, error: verifiedError } = await supabaseAdmin
+      .from('verified_users')
+      .select('is_verified')
+      .eq('user_id', userId)
+      .single();
+
+    if (verifiedError || !verifiedUser || !verifiedUser.is_verified) {
+      return res.status(403).json({ 
+        error: 'Email verification required to submit solutions. Please verify your email first.',
+        requiresVerification: true
+      });
+    }
+
+    // Get problem test cases from Supabase
+    const { data: problem, error: problemError } = await supabaseAdmin
+      .from('problems')
+      .select('*')
+      .eq('id', problemId)
+      .single();
+
+    if (problemError || !problem) {
+      console.log('Problem not found:', problemError);
+      return res.status(404).json({ error: 'Problem not found' });
+    }
+
+    // Once a contest ends its problems stay open as practice, which doesn't count towards the contest
+    const contestPhase = await getProblemContestPhase(problem, userId);
+    if (contestPhase && contestPhase !== 'running' && contestPhase !== 'ended') {
+      return res.status(403).json({ error: PHASE_SUBMISSION_ERRORS[contestPhase] });
+    }
+
+    // Get test cases for this problem
+    const { data: testCases, error: testCasesError } = await supabaseAdmin
+      .from('test_cases')
+      .select('*')
+      .eq('problem_id', problemId)
+      .order('position', { ascending: true });
+
+    if (testCasesError) {
+      console.log('Failed to fetch test cases:', testCasesError);
+      return res.status(500).json({ error: 'Failed to fetch test cases' });
+    }
+
+    if (testCases.length === 0) {
+      return res.status(400).json({ error: 'This problem has no test data yet' });
+    }
+
+    const contestId = await getScoringContestId(userId!, problem);
+
+    const { data: submission, error: submissionError } = await supabaseAdmin
+      .from('submissions')
+      .insert({
+        user_id: userId,
+        problem_id: problemId,
+        contest_id: contestId,
+        language: language.id,
+        source_code: source.toString('utf8'),
+        status: 'QUEUED',
+        total_tests: testCases.length,
+        total_points: getTotalPoints(problem, testCases.length),
+        results: []
+      })
+      .select()
+      .single();
+
+    if (submissionError || !submission) {
+      console.error('Error creating submission:', submissionError);
+      return res.status(500).json({ error: 'Failed to create submission' });
+    }
+
+    judgeQueue.enqueue({
+      submissionId: submission.id,
+      userId: userId!,
+      contestId,
+      problem,
+      testCases,
+      language,
+      source,
+      submittedAt: submission.created_at
+    });
+    console.log(`Queued submission ${submission.id} for problem ${problemId} (${judgeQueue.pending()} waiting)`);
+
+    res.status(202).json({ submissionId: submission.id, status: submission.status });
+
+  } catch (error) {
+    console.error('Judge error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.options('/api/run', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+const runRateLimiter = createRateLimiter({
+  windowMs: RUN_RATE_LIMIT_WINDOW_MS,
+  max: RUN_RATE_LIMIT_MAX,
+  message: 'Too many runs. Please wait a minute before running your code again.',
+  key: req => req.user?.id || req.ip || 'unknown'
+});
+
+// Run code on custom input with a problem's limits. Nothing is stored: no submission, no contest score.
+app.post('/api/run', authenticateUser, runRateLimiter, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { problemId, source } = req.body;
+    const input = req.body.input ?? '';
+    const languageId = req.body.language || DEFAULT_LANGUAGE_ID;
+
+    const language = getLanguage(languageId);
+    if (!language) {
+      return res.status(400).json({ success: false, error: `Unsupported language: ${languageId}` });
+    }
+
+    if (typeof source !== 'string' || !source.trim()) {
+      return res.status(400).json({ success: false, error: 'Source code is required' });
+    }
+    if (typeof input !== 'string') {
+      return res.status(400).json({ success: false, error: 'Input must be text' });
+    }
+    if (Buffer.byteLength(source) > MAX_SOURCE_BYTES || Buffer.byteLength(input) > MAX_RUN_INPUT_BYTES) {
+      return res.status(400).json({ success: false, error: 'Source code and input must each be at most 256 KB' });
+    }
+
+    const { data: verifiedUser, error: verifiedError } = await supabaseAdmin
+      .from('verified_users')
+      .select('is_verified')
+      .eq('user_id', userId)
+      .single();
+
+    if (verifiedError || !verifiedUser || !verifiedUser.is_verified) {
+      return res.status(403).json({
+        success: false,
+        error: 'Email verification required to run code. Please verify your email first.'
+      });
+    }
+
+    // Runs use the problem's limits when there is one, otherwise the defaults
+    let problem = {};
+    if (problemId) {
+      const { data, error } = await supabaseAdmin
+        .from('problems')
+        .select('contest_id, time_limit_ms, memory_limit_mb')
+        .eq('id', problemId)
+        .single();
+
+      if (error || !data || isHiddenPhase(await getProblemContestPhase(data, userId))) {
+        return res.status(404).json({ success: false, error: 'Problem not found' });
+      }
+      problem = data;
+    }
+
+    const result = await new Promise<CustomRunResult>((resolve, reject) => {
+      runQueue.enqueue({ language, source, input, limits: getJudgeLimits(problem, language), resolve, reject });
+    });
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error running code:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.options('/api/drafts/:problemId', (req, res) => {
+  res.header('Access-Control-Allow-Origin', req.headers.origin);
+  res.header('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  res.status(200).end();
+});
+
+// Get the user's saved editor draft for a problem in one language
+app.get('/api/drafts/:problemId', authenticateUser, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { problemId } = req.params;
+    const languageId = typeof req.query.language === 'string' ? req.query.language : DEFAULT_LANGUAGE_ID;
+
+    const { data, error } = await supabaseAdmin
+      .from('code_drafts')
+      .select('language, source, updated_at')
+      .eq('user_id', userId)
+      .eq('problem_id', problemId)
+      .eq('language', languageId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching draft:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch draft' });
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Save the user's editor draft for a problem in one language, replacing the previous one
+app.put('/api/drafts/:problemId', authenticateUser, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { problemId } = req.params;
+    const { language: languageId, source } = req.body;
+
+    if (!getLanguage(languageId)) {
+      return res.status(400).json({ success: false, error: `Unsupported language: ${languageId}` });
+    }
+    if (typeof source !== 'string') {
+      return res.status(400).json({ success: false, error: 'Source code is required' });
+    }
+    if (Buffer.byteLength(source) > MAX_SOURCE_BYTES) {
+      return res.status(400).json({ success: false, error: 'Source code must be at most 256 KB' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('code_drafts')
+      .upsert({
+        user_id: userId,
+        problem_id: problemId,
+        language: languageId,
+        source,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,problem_id,language' })
+      .select('language, source, updated_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving draft:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save draft' });
+    }
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Helper function to record a submission's progress; judging carries on if the update fails
+async function updateSubmission(submissionId: string, fields: Record<string, any>) {
+  const { error } = await supabaseAdmin
+    .from('submissions')
+    .update(fields)
+    .eq('id', submissionId);
+
+  if (error) {
+    console.error(`Error updating submission ${submissionId}:`, error);
+  }
+}
+
+// Helper function to move a submission to its next judging state and tell anyone watching it live
+async function setSubmissionStatus(submissionId: string, status: SubmissionStatus) {
+  await updateSubmission(submissionId, { status });
+  publishSubmissionEvent(submissionId, { type: 'status', status });
+}
+
+// Helper function to store a submission's final outcome and close its live stream
+async function finishSubmission(submissionId: string, fields: Record<string, any>) {
+  const finalFields = {
+    ...fields,
+    status: 'DONE' as SubmissionStatus,
+    judged_at: new Date().toISOString()
+  };
+  await updateSubmission(submissionId, finalFields);
+  publishSubmissionEvent(submissionId, { type: 'done', submission: { id: submissionId, ...finalFields } });
+}
+
+// Helper function to decide whether a submission counts towards a contest: the problem must belong
+// to a published contest that is running and that the user has joined. Anything else is judged as practice.
+async function getScoringContestId(userId: string, problem: any): Promise<string | null> {
+  if (!problem.contest_id) {
+    return null;
+  }
+
+  const { data: contest, error: contestError } = await supabaseAdmin
+    .from('contests')
+    .select('id, start_time, end_time')
+    .eq('id', problem.contest_id)
+    .eq('is_active', true)
+    .single();
+
+  if (contestError || !contest || getContestPhase(contest) !== 'running') {
+    return null;
+  }
+
+  const { data: participation, error: participationError } = await supabaseAdmin
+    .from('contest_participants')
+    .select('*')
+    .eq('contest_id', contest.id)
+    .eq('user_id', userId)
+    .single();
+
+  if (participationError || !participation) {
+    return null;
+  }
+
+  return contest.id;
+}
+
+// Helper function to store the judge's result as the user's contest submission for the problem.
+// The contest keeps the result of the user's latest submission, so an older one judged later
+// (with several workers, or during a rejudge) leaves it alone.
+async function recordContestResult(job: JudgeJob, score: number, totalPoints: number, totalTests: number, verdict: Verdict) {
+  const { data: newerSubmissions, error: newerError } = await supabaseAdmin
+    .from('submissions')
+    .select('id')
+    .eq('contest_id', job.contestId)
+    .eq('problem_id', job.problem.id)
+    .eq('user_id', job.userId)
+    .gt('created_at', job.submittedAt)
+    .or('verdict.is.null,verdict.neq.IE')
+    .limit(1);
+
+  if (newerError) {
+    console.error(`Error checking newer submissions for submission ${job.submissionId}:`, newerError);
+  } else if (newerSubmissions.length > 0) {
+    return;
+  }
+
+  const { data: existingSubmission, error: checkError } = await supabaseAdmin
+    .from('contest_submissions')
+    .select('id')
+    .eq('contest_id', job.contestId)
+    .eq('problem_id', job.problem.id)
+    .eq('user_id', job.userId)
+    .single();
+
+  const fields = {
+    score,
+    total_points: totalPoints,
+    total_tests: totalTests,
+    verdict,
+    submitted_at: job.submittedAt
+  };
+
+  let error;
+  if (checkError === null && existingSubmission) {
+    ({ error } = await supabaseAdmin
+      .from('contest_submissions')
+      .update(fields)
+      .eq('id', existingSubmission.id));
+  } else {
+    ({ error } = await supabaseAdmin
+      .from('contest_submissions')
+      .insert({
+        contest_id: job.contestId,
+        problem_id: job.problem.id,
+        user_id: job.userId,
+        ...fields
+      }));
+  }
+
+  if (error) {
+    console.error(`Error recording contest result for submission ${job.submissionId}:`, error);
+  }
+}
+
+// Judge worker: compiles a queued submission and runs it against every test case
+async function judgeSubmission(job: JudgeJob) {
+  const { submissionId, problem, language } = job;
+  const testCases = orderTestCases(problem, job.testCases);
+  const limits = getJudgeLimits(problem, language);
+  const totalTests = testCases.length;
+  const totalPoints = getTotalPoints(problem, totalTests);
+  const results: TestResult[] = [];
+  let passedTests = 0;
+
+  const finish = async (fields: Record<string, any>) => {
+    await finishSubmission(submissionId, {
+      total_tests: totalTests,
+      total_points: totalPoints,
+      results,
+      ...fields
+    });
+    if (job.contestId && fields.verdict !== 'IE') {
+      await recordContestResult(job, fields.points, totalPoints, totalTests, fields.verdict);
+    }
+    if (job.contestId) {
+      await updateParticipantStandings(supabaseAdmin, job.contestId, job.userId);
+      notifyLeaderboardChanged(job.contestId);
+    }
+    if (job.rejudgeId) {
+      recordRejudgeResult(job.rejudgeId, submissionId, fields.verdict, fields.points);
+    }
+  };
+
+  await setSubmissionStatus(submissionId, 'COMPILING');
+
+  let checker: ProblemChecker;
+  try {
+    checker = await prepareChecker(problem);
+  } catch (error) {
+    console.error(`Checker for problem ${problem.id} is unusable:`, error);
+    return finish({
+      verdict: 'IE',
+      passed_tests: 0,
+      points: 0,
+      error: 'This problem\'s checker is misconfigured. Please contact an admin.'
+    });
+  }
+
+  // Each submission gets its own working directory, named by the language's expected source file
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-'));
+  fs.writeFileSync(path.join(workDir, language.sourceFile), job.source);
+
+  try {
+    const compileResult = await compileSubmission(language, workDir);
+    if (!compileResult.success) {
+      return finish({ verdict: 'CE', passed_tests: 0, points: 0, compile_error: compileResult.output });
+    }
+
+    await setSubmissionStatus(submissionId, 'RUNNING');
+
+    // Run code against each test case, recording results as they come in so clients see progress.
+    // Within batches, tests that can no longer earn points are skipped instead of run. Test data is
+    // loaded one test case at a time, so a problem's files are never all in memory at once.
+    for (const [index, testCase] of testCases.entries()) {
+      if (shouldSkipTest(problem, testCase.batch, results)) {
+        results.push(toVisibleResult(testCase, { testCaseId: testCase.id, passed: false, verdict: 'SK', score: 0, batch: testCase.batch }));
+        publishSubmissionEvent(submissionId, { type: 'test-result', index, result: results[index] });
+        continue;
+      }
+
+      let testData: any;
+      try {
+        testData = await loadTestCase(supabaseAdmin, testCase);
+      } catch (error) {
+        console.error(`Test data for problem ${problem.id} could not be loaded:`, error);
+        return finish({
+          verdict: 'IE',
+          passed_tests: passedTests,
+          points: 0,
+          error: 'This problem\'s test data could not be loaded. It may have been replaced; please resubmit.'
+        });
+      }
+
+      publishSubmissionEvent(submissionId, { type: 'test-start', index, testCaseId: testCase.id });
+      try {
+        const result = await runCodeAgainstTestCase(language, workDir, testData, limits, checker);
+        results.push(toVisibleResult(testCase, { ...result, batch: testCase.batch }));
+        if (result.passed) {
+          passedTests++;
+        }
+      } catch (error) {
+        console.log('Error running test case:', error);
+        results.push(toVisibleResult(testCase, {
+          testCaseId: testCase.id,
+          passed: false,
+          verdict: 'IE',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          batch: testCase.batch
+        }));
+      }
+      publishSubmissionEvent(submissionId, { type: 'test-result', index, result: results[index] });
+      await updateSubmission(submissionId, { results, passed_tests: passedTests });
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  const verdict = getSubmissionVerdict(results);
+  const { points, batchResults } = scoreSubmission(problem, results);
+  console.log(`Submission ${submissionId} judged: ${verdict} (${points}/${totalPoints} points)`);
+
+  await finish({
+    verdict,
+    passed_tests: passedTests,
+    points,
+    batch_results: batchResults
+  });
+}
+
+const judgeQueue = createJudgeQueue<JudgeJob>(JUDGE_WORKERS, async (job) => {
+  try {
+    await judgeSubmission(job);
+  } catch (error) {
+    console.error(`Error judging submission ${job.submissionId}:`, error);
+    await finishSubmission(job.submissionId, {
+      verdict: 'IE',
+      error: 'The judge failed on this submission. Please try again.'
+    });
+    if (job.rejudgeId) {
+      recordRejudgeResult(job.rejudgeId, job.submissionId, 'IE', null);
+    }
+  }
+});
+
+const runQueue = createJudgeQueue<RunJob>(RUN_WORKERS, async (job) => {
+  await runCustomInput(job).then(job.resolve, job.reject);
+});
+
+// Helper function to validate the limits an admin sets on a problem; returns an error message when invalid
+function parseProblemLimits(timeLimitMs: any, memoryLimitMb: any): JudgeLimits | string {
+  const timeLimit = timeLimitMs === undefined || timeLimitMs === null || timeLimitMs === '' ? DEFAULT_TIME_LIMIT_MS : Number(timeLimitMs);
+  const memoryLimit = memoryLimitMb === undefined || memoryLimitMb === null || memoryLimitMb === '' ? DEFAULT_MEMORY_LIMIT_MB : Number(memoryLimitMb);
+
+  if (!Number.isInteger(timeLimit) || timeLimit <= 0 || timeLimit > MAX_TIME_LIMIT_MS) {
+    return `Time limit must be a whole number of milliseconds between 1 and ${MAX_TIME_LIMIT_MS}`;
+  }
+  if (!Number.isInteger(memoryLimit) || memoryLimit <= 0 || memoryLimit > MAX_MEMORY_LIMIT_MB) {
+    return `Memory limit must be a whole number of megabytes between 1 and ${MAX_MEMORY_LIMIT_MB}`;
+  }
+
+  return { timeLimitMs: timeLimit, memoryLimitMb: memoryLimit };
+}
+
+// Helper function to validate a problem's checker settings; returns an error message when invalid
+function parseCheckerSettings(body: any): CheckerSettings | string {
+  const checker = body.checker || DEFAULT_CHECKER_ID;
+
+  if (checker === CUSTOM_CHECKER_ID) {
+    if (!body.checker_source || !body.checker_source.trim()) {
+      return 'Custom checkers need source code';
+    }
+    if (!getLanguage(body.checker_language)) {
+      return 'Custom checkers need a supported language';
+    }
+    return {
+      checker,
+      checker_precision: null,
+      checker_language: body.checker_language,
+      checker_source: body.checker_source
+    };
+  }
+
+  const builtinChecker = getBuiltinChecker(checker);
+  if (!builtinChecker) {
+    return `Unknown checker: ${checker}`;
+  }
+
+  let precision: number | null = null;
+  if (builtinChecker.usesPrecision && body.checker_precision !== undefined && body.checker_precision !== null && body.checker_precision !== '') {
+    precision = Number(body.checker_precision);
+    if (!Number.isFinite(precision) || precision <= 0 || precision >= 1) {
+      return 'Checker precision must be a number between 0 and 1';
+    }
+  }
+
+  return {
+    checker,
+    checker_precision: precision,
+    checker_language: null,
+    checker_source: null
+  };
+}
+
+// Helper function to validate the schedule an admin sets on a contest; the start defaults to now,
+// a window length makes it a windowed contest, and a freeze length freezes the board before the end
+function parseContestSchedule(
+  startTime: any,
+  endTime: any,
+  windowMinutes: any,
+  freezeMinutes: any
+): { start_time: string; end_time: string | null; window_minutes: number | null; freeze_minutes: number | null } | string {
+  const start = startTime ? new Date(startTime) : new Date();
+  if (Number.isNaN(start.getTime())) {
+    return 'Start time must be a valid date';
+  }
+
+  let end: Date | null = null;
+  if (endTime) {
+    end = new Date(endTime);
+    if (Number.isNaN(end.getTime())) {
+      return 'End time must be a valid date';
+    }
+    if (end <= start) {
+      return 'The contest must end after it starts';
+    }
+  }
+
+  let windowLength: number | null = null;
+  if (windowMinutes !== undefined && windowMinutes !== null && windowMinutes !== '') {
+    windowLength = Number(windowMinutes);
+    if (!Number.isInteger(windowLength) || windowLength <= 0) {
+      return 'The time window must be a whole number of minutes';
+    }
+  }
+
+  let freezeLength: number | null = null;
+  if (freezeMinutes !== undefined && freezeMinutes !== null && freezeMinutes !== '') {
+    freezeLength = Number(freezeMinutes);
+    if (!Number.isInteger(freezeLength) || freezeLength <= 0) {
+      return 'The scoreboard freeze must be a whole number of minutes';
+    }
+    if (!end) {
+      return 'Only contests with an end time can freeze the scoreboard';
+    }
+  }
+
+  return {
+    start_time: start.toISOString(),
+    end_time: end?.toISOString() ?? null,
+    window_minutes: windowLength,
+    freeze_minutes: freezeLength
+  };
+}
+
+// Helper function to place a contest in its schedule
+function getContestPhase(contest: { start_time: string | null; end_time: string | null }, now = Date.now()): ContestPhase {
+  if (contest.start_time && now < new Date(contest.start_time).getTime()) {
+    return 'upcoming';
+  }
+  if (contest.end_time && now >= new Date(contest.end_time).getTime()) {
+    return 'ended';
+  }
+  return 'running';
+}
+
+// Helper function to get when a participant's window in a windowed contest closes: when their time
+// runs out or the contest ends, whichever comes first. Null when there is no window running.
+function getWindowEnd(contest: any, participation: any): Date | null {
+  if (!contest.window_minutes || !participation?.window_started_at) {
+    return null;
+  }
+
+  const windowEnd = new Date(participation.window_started_at).getTime() + contest.window_minutes * 60 * 1000;
+  const contestEnd = contest.end_time ? new Date(contest.end_time).getTime() : Infinity;
+  return new Date(Math.min(windowEnd, contestEnd));
+}
+
+// Helper function to place a user in a contest; participation is null for users who haven't joined
+function getParticipantPhase(contest: any, participation: any, now = Date.now()): ParticipantPhase {
+  const phase = getContestPhase(contest, now);
+  if (phase !== 'running' || !contest.window_minutes) {
+    return phase;
+  }
+  if (!participation?.window_started_at) {
+    return 'window-not-started';
+  }
+  return now < getWindowEnd(contest, participation)!.getTime() ? 'running' : 'window-ended';
+}
+
+// Contest problems are hidden before the contest starts, and in windowed contests before the user's window does
+const isHiddenPhase = (phase: ParticipantPhase | null) => phase === 'upcoming' || phase === 'window-not-started';
+
+const PHASE_SUBMISSION_ERRORS: Record<Exclude<ParticipantPhase, 'running'>, string> = {
+  upcoming: 'This contest has not started yet',
+  ended: 'This contest has ended',
+  'window-not-started': 'Join the contest and start your window before submitting',
+  'window-ended': 'Your contest window has ended'
+};
+
+// Helper function to get a user's phase in a problem's contest; null for standalone problems
+async function getProblemContestPhase(problem: { contest_id: string | null }, userId?: string): Promise<ParticipantPhase | null> {
+  if (!problem.contest_id) {
+    return null;
+  }
+
+  const { data: contest, error } = await supabaseAdmin
+    .from('contests')
+    .select('start_time, end_time, window_minutes')
+    .eq('id', problem.contest_id)
+    .single();
+
+  if (error || !contest) {
+    return null;
+  }
+
+  let participation = null;
+  if (userId && contest.window_minutes) {
+    const { data } = await supabaseAdmin
+      .from('contest_participants')
+      .select('window_started_at')
+      .eq('contest_id', problem.contest_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    participation = data;
+  }
+
+  return getParticipantPhase(contest, participation);
+}
+
+// Helper function to decide which leaderboard a user gets: participants get the public board with
+// their own results, and admins the live board, or with publicView the board participants see.
+// Null when the user may not see the board at all.
+async function getLeaderboardView(userId: string, contestId: string, publicView: boolean): Promise<LeaderboardView | null> {
+  if (await isAdminUser(userId)) {
+    return publicView ? { viewerId: null, live: false } : { viewerId: userId, live: true };
+  }
+
+  const { data: participation } = await supabaseAdmin
+    .from('contest_participants')
+    .select('user_id')
+    .eq('contest_id', contestId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return participation ? { viewerId: userId, live: false } : null;
+}
+
+// Helper function to strip judge-only fields before a problem is sent to users
+function toPublicProblem(problem: any) {
+  const { checker_source, ...publicProblem } = problem;
+  return publicProblem;
+}
+
+// Helper function to get the effective limits for a problem in a given language
+function getJudgeLimits(problem: any, language: LanguageConfig): JudgeLimits {
+  return {
+    timeLimitMs: Math.round((problem.time_limit_ms || DEFAULT_TIME_LIMIT_MS) * (language.timeMultiplier || 1)),
+    memoryLimitMb: Math.round((problem.memory_limit_mb || DEFAULT_MEMORY_LIMIT_MB) * (language.memoryMultiplier || 1))
+  };
+}
+
+// Helper function to fetch a problem's sample test cases, which are shown with its statement
+async function getSampleTestCases(problemId: string): Promise<{ input: string; expected_output: string }[]> {
+  const { data, error } = await supabaseAdmin
+    .from('test_cases')
+    .select('input, expected_output, input_path, output_path')
+    .eq('problem_id', problemId)
+    .eq('is_sample', true)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching sample test cases:', error);
+    return [];
+  }
+
+  try {
+    const samples = await loadTestCaseData(supabaseAdmin, data);
+    return samples.map(sample => ({ input: sample.input.toString(), expected_output: sample.expected_output.toString() }));
+  } catch (loadError) {
+    console.error('Error loading sample test data:', loadError);
+    return [];
+  }
+}
+
+// Helper function to hide a hidden test's data from its result; users only see its verdict, time and memory
+function toVisibleResult(testCase: any, result: TestResult): TestResult {
+  if (testCase.is_sample) {
+    return { ...result, sample: true };
+  }
+
+  const { input, expectedOutput, actualOutput, error, checkerMessage, ...visibleResult } = result;
+  return visibleResult;
+}
+
+// Helper function to send finished submissions back through the judge queue against current test data.
+// Submissions still being judged, or stored before source code was kept, are skipped.
+async function queueRejudge(scope: RejudgeScope, targetId: string, submissions: any[]): Promise<string> {
+  const candidates = submissions.filter(submission =>
+    submission.status === 'DONE' && submission.source_code !== null && getLanguage(submission.language)
+  );
+
+  if (candidates.length === 0) {
+    return startRejudge(scope, targetId, [], submissions.length);
+  }
+
+  const problemIds = Array.from(new Set(candidates.map(submission => submission.problem_id)));
+
+  const [problemsResult, testCasesResult, profilesResult] = await Promise.all([
+    supabaseAdmin.from('problems').select('*').in('id', problemIds),
+    supabaseAdmin.from('test_cases').select('*').in('problem_id', problemIds).order('position', { ascending: true }),
+    supabaseAdmin.from('user_profiles').select('user_id, username').in('user_id', candidates.map(submission => submission.user_id))
+  ]);
+
+  if (problemsResult.error || testCasesResult.error) {
+    throw problemsResult.error || testCasesResult.error;
+  }
+
+  const problems = problemsResult.data;
+  const testCases = testCasesResult.data;
+  const profiles = profilesResult.data || [];
+
+  // Submissions whose problem has since been deleted have nothing to be judged against, so they are skipped
+  const rejudgeable = candidates.filter(submission => problems.some(p => p.id === submission.problem_id));
+
+  const rejudgeId = startRejudge(
+    scope,
+    targetId,
+    rejudgeable.map(submission => ({
+      submissionId: submission.id,
+      userId: submission.user_id,
+      username: profiles.find(profile => profile.user_id === submission.user_id)?.username || 'Anonymous User',
+      problemId: submission.problem_id,
+      previousVerdict: submission.verdict,
+      previousPoints: submission.points
+    })),
+    submissions.length - rejudgeable.length
+  );
+
+  if (rejudgeable.length === 0) {
+    return rejudgeId;
+  }
+
+  const { error: resetError } = await supabaseAdmin
+    .from('submissions')
+    .update({
+      status: 'QUEUED' as SubmissionStatus,
+      verdict: null,
+      passed_tests: null,
+      points: null,
+      results: [],
+      batch_results: null,
+      compile_error: null,
+      error: null,
+      judged_at: null
+    })
+    .in('id', rejudgeable.map(submission => submission.id));
+
+  if (resetError) {
+    throw resetError;
+  }
+
+  // Results are about to change all over the contests involved, so their standings are loaded again
+  for (const contestId of new Set(rejudgeable.map(submission => submission.contest_id))) {
+    if (contestId) {
+      invalidateStandings(contestId);
+    }
+  }
+
+  // Oldest first, so each user's latest submission is the one a contest ends up keeping
+  for (const submission of rejudgeable) {
+    const problem = problems.find(p => p.id === submission.problem_id);
+    judgeQueue.enqueue({
+      submissionId: submission.id,
+      userId: submission.user_id,
+      contestId: submission.contest_id,
+      problem,
+      testCases: testCases.filter(tc => tc.problem_id === submission.problem_id),
+      language: getLanguage(submission.language)!,
+      source: Buffer.from(submission.source_code, 'utf8'),
+      submittedAt: submission.created_at,
+      rejudgeId
+    });
+  }
+
+  console.log(`Queued ${rejudgeable.length} submission(s) for rejudge ${rejudgeId} of ${scope} ${targetId}`);
+  return rejudgeId;
+}
+
+// Helper function to list the stored test files of problems, so they can be removed along with them
+async function getTestFilePaths(problemIds: string[]): Promise<string[]> {
+  if (problemIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('test_cases')
+    .select('input_path, output_path')
+    .in('problem_id', problemIds);
+
+  if (error) {
+    console.error('Error fetching test file paths:', error);
+    return [];
+  }
+
+  return data.flatMap(tc => [tc.input_path, tc.output_path]).filter(Boolean);
+}
+
+// Helper function to look up problem titles by ID for submission listings
+async function getProblemTitles(problemIds: string[]): Promise<Record<string, string>> {
+  const uniqueIds = Array.from(new Set(problemIds));
+  if (uniqueIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('problems')
+    .select('id, title')
+    .in('id', uniqueIds);
+
+  if (error) {
+    console.error('Error fetching problem titles:', error);
+    return {};
+  }
+
+  return Object.fromEntries(data.map(problem => [problem.id, problem.title]));
+}
+
+// Helper function to remove an uploaded file once it is no longer needed
+function cleanupUpload(filePath: string) {
+  try {
+    fs.unlinkSync(filePath);
+  } catch (error) {
+    console.log('Error cleaning up file:', error);
+  }
+}
+
+// Helper function to classify how a sandboxed run ended; no verdict means it exited normally
+function getExecutionVerdict(result: SandboxResult, limits: JudgeLimits): { verdict?: Verdict; error?: string } {
+  const timeLimitExceeded = result.timedOut
+    || result.signal === 'SIGXCPU'
+    || (result.cpuTimeMs !== undefined && result.cpuTimeMs > limits.timeLimitMs);
+  const memoryLimitExceeded = result.memoryKb !== undefined && result.memoryKb > limits.memoryLimitMb * 1024;
+
+  // A crash (signal) is a runtime error; a clean exit with a non-zero status is an invalid return
+  if (result.error) {
+    return { verdict: 'IE', error: result.error };
+  } else if (timeLimitExceeded) {
+    return { verdict: 'TLE' };
+  } else if (memoryLimitExceeded) {
+    return { verdict: 'MLE' };
+  } else if (result.outputLimitExceeded || result.signal === 'SIGXFSZ') {
+    return { verdict: 'OLE' };
+  } else if (result.signal) {
+    return { verdict: 'RE', error: result.stderr || `Process killed by ${result.signal}` };
+  } else if (result.exitCode !== 0) {
+    return { verdict: 'IR', error: result.stderr || `Process exited with code ${result.exitCode}` };
+  }
+  return {};
+}
+
+// Helper function to compile and run code once on custom input, in a scratch directory that is removed afterwards
+async function runCustomInput(job: RunJob): Promise<CustomRunResult> {
+  const { language, limits } = job;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-run-'));
+  fs.writeFileSync(path.join(workDir, language.sourceFile), job.source);
+
+  try {
+    const compileResult = await compileSubmission(language, workDir);
+    if (!compileResult.success) {
+      return {
+        compileError: compileResult.output,
+        verdict: 'CE',
+        stdout: '',
+        stderr: '',
+        exitCode: null,
+        signal: null
+      };
+    }
+
+    const result = await runInSandbox({
+      command: language.runCommand,
+      workDir,
+      stdin: job.input,
+      timeLimitMs: limits.timeLimitMs,
+      memoryLimitMb: limits.memoryLimitMb,
+      addressSpaceOverheadMb: language.addressSpaceOverheadMb,
+      maxProcesses: language.maxProcesses,
+      outputLimitBytes: RUN_OUTPUT_LIMIT_BYTES
+    });
+
+    const { verdict } = getExecutionVerdict(result, limits);
+    return {
+      verdict: verdict || null,
+      stdout: result.stdout,
+      stderr: result.error || result.stderr,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      wallTimeMs: result.wallTimeMs,
+      cpuTimeMs: result.cpuTimeMs,
+      memoryKb: result.memoryKb
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Helper function to run compiled code against a test case inside the sandbox
+async function runCodeAgainstTestCase(
+  language: LanguageConfig,
+  workDir: string,
+  testCase: any,
+  limits: JudgeLimits,
+  checker: ProblemChecker
+): Promise<TestResult> {
+  try {
+    const result = await runInSandbox({
+      command: language.runCommand,
+      workDir,
+      stdin: testCase.input,
+      timeLimitMs: limits.timeLimitMs,
+      memoryLimitMb: limits.memoryLimitMb,
+      addressSpaceOverheadMb: language.addressSpaceOverheadMb,
+      maxProcesses: language.maxProcesses
+    });
+
+    const measurements = {
+      wallTimeMs: result.wallTimeMs,
+      cpuTimeMs: result.cpuTimeMs,
+      memoryKb: result.memoryKb
+    };
+
+    const { verdict, error } = getExecutionVerdict(result, limits);
+    if (verdict) {
+      return {
         testCaseId: testCase.id,
         passed: false,
-        error: error instanceof Error ? error.message : 'Execution error',
-        input: testCase.input
+        verdict,
+        error: error || VERDICT_NAMES[verdict],
+        input: testCase.input.toString(),
+        ...measurements
+      };
+    }
+
+    // Compare output with expected output using the problem's checker
+    let checkerResult;
+    try {
+      checkerResult = await runChecker(checker, {
+        input: testCase.input,
+        expected: testCase.expected_output,
+        actual: result.stdout
       });
+    } catch (checkerError) {
+      console.error(`Checker failed on test case ${testCase.id}:`, checkerError);
+      return {
+        testCaseId: testCase.id,
+        passed: false,
+        verdict: 'IE',
+        error: 'The checker failed on this test case. Please contact an admin.',
+        input: testCase.input.toString(),
+        ...measurements
+      };
     }
-  });
+
+    return {
+      testCaseId: testCase.id,
+      passed: checkerResult.passed,
+      verdict: checkerResult.passed ? 'AC' : 'WA',
+      score: checkerResult.score,
+      checkerMessage: checkerResult.message,
+      actualOutput: result.stdout,
+      expectedOutput: testCase.expected_output.toString(),
+      input: testCase.input.toString(),
+      ...measurements
+    };
+  } catch (error) {
+    console.log('Error in runCodeAgainstTestCase:', error);
+    return {
+      testCaseId: testCase.id,
+      passed: false,
+      verdict: 'RE',
+      error: error instanceof Error ? error.message : 'Execution error',
+      input: testCase.input.toString()
+    };
+  }
 }
 
-app.listen(port, () => {
+// The queue lives in memory, so submissions left unfinished by a restart can't be resumed
+async function failInterruptedSubmissions() {
+  const { error } = await supabaseAdmin
+    .from('submissions')
+    .update({
+      status: 'DONE' as SubmissionStatus,
+      verdict: 'IE',
+      error: 'Judging was interrupted by a server restart. Please resubmit.',
+      judged_at: new Date().toISOString()
+    })
+    .neq('status', 'DONE');
+
+  if (error) {
+    console.error('Error cleaning up interrupted submissions:', error);
+  }
+}
+
+// Error handling middleware for uploads rejected by their limits
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err instanceof multer.MulterError) {
+    if (err.code === 'LIMIT_FILE_SIZE') {
+      const limit = err.field === 'code' ? '256 KB' : '256 MB';
+      return res.status(413).json({ success: false, error: `Uploaded files can be at most ${limit}` });
+    }
+    return res.status(400).json({ success: false, error: err.message });
+  }
+  next(err);
+});
+
+const server = app.listen(port, () => {
   console.log(`Server running on port ${port}`);
+  console.log(`Judge queue running with ${JUDGE_WORKERS} worker(s)`);
+  failInterruptedSubmissions();
+});
+
+attachLeaderboardSockets(server, supabaseAdmin, async (token, contestId, publicView) => {
+  let user: User;
+  try {
+    user = await verifyAccessToken(token, supabase);
+  } catch (error) {
+    if (!(error instanceof InvalidTokenError)) {
+      console.error('Authentication error:', error);
+    }
+    return 'Authentication failed';
+  }
+
+  return await getLeaderboardView(user.id, contestId, publicView) || 'Not participating in this contest';
 }); 
\ No newline at end of file
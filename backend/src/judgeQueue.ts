@@ -0,0 +1,36 @@
+// In-memory judge queue backed by a bounded pool of workers.
+// Jobs are processed in the order they were enqueued, at most `concurrency` at a time,
+// so a burst of submissions waits its turn instead of all running at once.
+
+export interface JudgeQueue<T> {
+  enqueue: (job: T) => void;
+  pending: () => number;
+  active: () => number;
+}
+
+export function createJudgeQueue<T>(concurrency: number, processJob: (job: T) => Promise<void>): JudgeQueue<T> {
+  const waiting: T[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      processJob(job)
+        .catch(error => console.error('Judge worker error:', error))
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    enqueue: (job: T) => {
+      waiting.push(job);
+      next();
+    },
+    pending: () => waiting.length,
+    active: () => running
+  };
+}
@@ -0,0 +1,73 @@
+// Language registry used by the judge.
+// Commands are run with the submission's working directory as cwd, so paths are relative to it.
+
+export interface LanguageConfig {
+  id: string;
+  name: string;
+  version: string;
+  extension: string;
+  sourceFile: string; // Name the submission is saved as inside the working directory
+  compileCommand?: string[]; // Omitted for interpreted languages
+  runCommand: string[];
+  addressSpaceOverheadMb?: number; // Virtual memory the runtime reserves beyond what it uses (JVM, V8)
+  maxProcesses?: number; // Runtimes with many threads need a higher process limit
+  timeMultiplier?: number; // Applied to the problem's time limit for slower runtimes
+  memoryMultiplier?: number; // Applied to the problem's memory limit
+}
+
+export const languages: LanguageConfig[] = [
+  {
+    id: 'python3',
+    name: 'Python 3',
+    version: 'Python 3',
+    extension: '.py',
+    sourceFile: 'main.py',
+    runCommand: ['python3', 'main.py'],
+    timeMultiplier: 2
+  },
+  {
+    id: 'cpp',
+    name: 'C++',
+    version: 'C++17 (g++ -O2)',
+    extension: '.cpp',
+    sourceFile: 'main.cpp',
+    compileCommand: ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'],
+    runCommand: ['./main']
+  },
+  {
+    id: 'c',
+    name: 'C',
+    version: 'C17 (gcc -O2)',
+    extension: '.c',
+    sourceFile: 'main.c',
+    compileCommand: ['gcc', '-O2', '-std=c17', '-o', 'main', 'main.c', '-lm'],
+    runCommand: ['./main']
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    version: 'Java 17 (class must be named Main)',
+    extension: '.java',
+    sourceFile: 'Main.java',
+    compileCommand: ['javac', 'Main.java'],
+    runCommand: ['java', '-Xss64m', '-XX:+UseSerialGC', 'Main'],
+    addressSpaceOverheadMb: 2048,
+    maxProcesses: 128,
+    timeMultiplier: 1.5
+  },
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    version: 'Node.js 20',
+    extension: '.js',
+    sourceFile: 'main.js',
+    runCommand: ['node', 'main.js'],
+    addressSpaceOverheadMb: 1024
+  }
+];
+
+export const DEFAULT_LANGUAGE_ID = 'python3';
+
+export const getLanguage = (id: string): LanguageConfig | undefined => {
+  return languages.find(language => language.id === id);
+};
@@ -0,0 +1,210 @@
+import { buildLeaderboard, invalidateStandings, revealNextResult, updateParticipantStandings } from './leaderboard';
+
+// An in-memory stand-in for the few Supabase queries the standings make
+const createDatabase = (tables: Record<string, any[]>) => ({
+  tables,
+  from: (table: string) => {
+    const filters: ((row: any) => boolean)[] = [];
+    let changes: any = null;
+    let single = false;
+    const query: any = {
+      select: () => query,
+      order: () => query,
+      update: (values: any) => {
+        changes = values;
+        return query;
+      },
+      eq: (column: string, value: any) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      in: (column: string, values: any[]) => {
+        filters.push(row => values.includes(row[column]));
+        return query;
+      },
+      is: (column: string, value: null) => {
+        filters.push(row => (row[column] ?? null) === value);
+        return query;
+      },
+      // Only array equality, as in .filter('freeze_reveals', 'eq', '{"a","b"}')
+      filter: (column: string, operator: string, literal: string) => {
+        const values = JSON.parse(`[${literal.slice(1, -1)}]`);
+        filters.push(row => JSON.stringify(row[column]) === JSON.stringify(values));
+        return query;
+      },
+      single: () => {
+        single = true;
+        return query;
+      },
+      maybeSingle: () => query.single(),
+      then: (resolve: (result: any) => void) => {
+        const rows = (tables[table] || []).filter(row => filters.every(matches => matches(row)));
+        if (changes) {
+          rows.forEach(row => Object.assign(row, changes));
+        }
+        const data = rows.map(row => ({ ...row }));
+        resolve({ data: single ? data[0] ?? null : data, error: null });
+      }
+    };
+    return query;
+  }
+});
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.now();
+const at = (hoursAgo: number) => new Date(NOW - hoursAgo * HOUR).toISOString();
+
+// A finished contest that froze for its last hour: alice solved before the freeze, bob and carol after it
+const createContest = () => {
+  const contest = {
+    id: 'contest',
+    scoring_mode: 'points',
+    start_time: at(4),
+    end_time: at(1),
+    window_minutes: null,
+    freeze_minutes: 60,
+    freeze_reveals: null as string[] | null,
+    unfrozen_at: null as string | null,
+    ratings_finalized_at: null
+  };
+  const solve = (userId: string, hoursAgo: number) => ({
+    contest_id: contest.id,
+    user_id: userId,
+    problem_id: 'p1',
+    verdict: 'AC',
+    status: 'DONE',
+    points: 1,
+    score: 1,
+    created_at: at(hoursAgo),
+    submitted_at: at(hoursAgo)
+  });
+  const users = ['alice', 'bob', 'carol'];
+  const submissions = [solve('alice', 3), solve('bob', 1.5), solve('carol', 1.2)];
+
+  const database = createDatabase({
+    contests: [{ ...contest }],
+    contest_participants: users.map(user => ({ contest_id: contest.id, user_id: user, window_started_at: null })),
+    user_profiles: users.map(user => ({ user_id: user, username: user })),
+    problems: [{ id: 'p1', title: 'Problem', contest_id: contest.id, created_at: at(5) }],
+    test_cases: [{ problem_id: 'p1' }],
+    contest_submissions: submissions,
+    submissions
+  });
+  return { contest, database };
+};
+
+// Standings are cached per contest across tests
+beforeEach(() => invalidateStandings('contest'));
+
+// How often the contest's standings were loaded in full
+const countLoads = (database: ReturnType<typeof createDatabase>) => {
+  const from = database.from;
+  const counter = { loads: 0 };
+  database.from = (table: string) => {
+    if (table === 'problems') {
+      counter.loads++;
+    }
+    return from(table);
+  };
+  return counter;
+};
+
+const scores = (leaderboard: any) => Object.fromEntries(leaderboard.entries.map((entry: any) => [entry.username, entry.total_score]));
+
+test('results submitted after the freeze are hidden from other viewers', async () => {
+  const { contest, database } = createContest();
+  const leaderboard = await buildLeaderboard(database as any, contest, { viewerId: 'alice', live: false });
+
+  expect(scores(leaderboard)).toEqual({ alice: 1, bob: 0, carol: 0 });
+  const bob = leaderboard.entries.find(entry => entry.username === 'bob')!;
+  expect(bob.hidden_problems).toEqual(['p1']);
+  expect(bob.problems[0]).toMatchObject({ score: 0, solved: false, hidden: 1 });
+  expect(leaderboard.freeze.frozen).toBe(true);
+});
+
+test('viewers see their own results after the freeze, ranked among the frozen board', async () => {
+  const { contest, database } = createContest();
+  const leaderboard = await buildLeaderboard(database as any, contest, { viewerId: 'bob', live: false });
+
+  expect(scores(leaderboard)).toEqual({ alice: 1, bob: 1, carol: 0 });
+  expect(leaderboard.entries.map(entry => [entry.username, entry.rank])).toEqual([['alice', 1], ['bob', 1], ['carol', 3]]);
+  expect(leaderboard.viewer_entry).toMatchObject({ username: 'bob', total_score: 1, hidden_problems: [] });
+});
+
+test('admins on the live board see every result', async () => {
+  const { contest, database } = createContest();
+  const leaderboard = await buildLeaderboard(database as any, contest, { viewerId: 'admin', live: true });
+  expect(scores(leaderboard)).toEqual({ alice: 1, bob: 1, carol: 1 });
+});
+
+test('revealed results are shown to everyone', async () => {
+  const { contest, database } = createContest();
+  const leaderboard = await buildLeaderboard(database as any, { ...contest, freeze_reveals: ['carol:p1'] }, { viewerId: 'alice', live: false });
+  expect(scores(leaderboard)).toEqual({ alice: 1, carol: 1, bob: 0 });
+});
+
+test('an unfrozen board shows everything', async () => {
+  const { contest, database } = createContest();
+  const leaderboard = await buildLeaderboard(database as any, { ...contest, unfrozen_at: at(0.5) }, { viewerId: 'alice', live: false });
+
+  expect(scores(leaderboard)).toEqual({ alice: 1, bob: 1, carol: 1 });
+  expect(leaderboard.entries.every(entry => entry.hidden_problems.length === 0)).toBe(true);
+  expect(leaderboard.freeze.frozen).toBe(false);
+});
+
+test('concurrent reveals each reveal a different result', async () => {
+  const { contest, database } = createContest();
+  const revealed = await Promise.all([
+    revealNextResult(database as any, { ...contest }),
+    revealNextResult(database as any, { ...contest })
+  ]);
+
+  expect(revealed.map(result => result!.user_id).sort()).toEqual(['bob', 'carol']);
+  expect(revealed.map(result => result!.remaining).sort()).toEqual([0, 1]);
+  const [stored] = database.tables.contests;
+  expect([...stored.freeze_reveals].sort()).toEqual(['bob:p1', 'carol:p1']);
+  expect(stored.unfrozen_at).not.toBeNull();
+  expect(await revealNextResult(database as any, { ...stored })).toBeNull();
+});
+
+test('standings are loaded once and reused until they are invalidated', async () => {
+  const { contest, database } = createContest();
+  const counter = countLoads(database);
+  const view = { viewerId: 'admin', live: true };
+
+  await buildLeaderboard(database as any, contest, view);
+  database.tables.contest_submissions.push({ contest_id: 'contest', user_id: 'alice', problem_id: 'p2', score: 5, submitted_at: at(3) });
+  expect(scores(await buildLeaderboard(database as any, contest, view)).alice).toBe(1);
+  expect(counter.loads).toBe(1);
+
+  invalidateStandings('contest');
+  expect(scores(await buildLeaderboard(database as any, contest, view)).alice).toBe(6);
+  expect(counter.loads).toBe(2);
+});
+
+test('a change to the contest settings recomputes the cached entries', async () => {
+  const { contest, database } = createContest();
+  const counter = countLoads(database);
+  const view = { viewerId: 'alice', live: false };
+
+  expect(scores(await buildLeaderboard(database as any, contest, view)).bob).toBe(0);
+  expect(scores(await buildLeaderboard(database as any, { ...contest, freeze_minutes: null }, view)).bob).toBe(1);
+  const icpc = await buildLeaderboard(database as any, { ...contest, freeze_minutes: null, scoring_mode: 'icpc' }, view);
+  expect(icpc.scoring_mode).toBe('icpc');
+  expect(icpc.entries[0]).toMatchObject({ username: 'alice', problems_solved: 1, penalty: 60 });
+  expect(counter.loads).toBe(1);
+});
+
+test('a participant whose results change is reloaded on their own', async () => {
+  const { contest, database } = createContest();
+  const counter = countLoads(database);
+  const view = { viewerId: 'admin', live: true };
+  await buildLeaderboard(database as any, contest, view);
+
+  database.tables.contest_submissions.push({ contest_id: 'contest', user_id: 'carol', problem_id: 'p2', score: 5, submitted_at: at(2.5) });
+  database.tables.contest_submissions.push({ contest_id: 'contest', user_id: 'bob', problem_id: 'p2', score: 5, submitted_at: at(2.5) });
+  await updateParticipantStandings(database as any, 'contest', 'carol');
+
+  expect(scores(await buildLeaderboard(database as any, contest, view))).toEqual({ carol: 6, alice: 1, bob: 1 });
+  expect(counter.loads).toBe(1);
+});
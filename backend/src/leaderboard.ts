@@ -0,0 +1,684 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Verdict, isVerdict } from './verdicts';
+import { getTotalPoints } from './scoring';
+import {
+  DEFAULT_SCORING_MODE,
+  ScoringMode,
+  IcpcProblemResult,
+  getIcpcProblemResult,
+  getIcpcTotals,
+  compareIcpcTotals,
+  getContestMinutes,
+  getFreezeTime,
+  isBoardFrozen,
+  getRevealKey
+} from './standings';
+
+// Contest leaderboards, built from the contest's participants and their submissions.
+//
+// While the board is frozen (see standings.ts), each viewer gets the board as it stood at the freeze
+// time, plus their own results. Hidden results show up as problems with hidden submissions, so the
+// board still shows who has been busy. Admins can ask for the live board instead.
+//
+// Every entry carries its result on each problem, and the earliest solve of each problem is marked
+// as the first solve. Participants with the same standing share a rank. Until a viewer may see the
+// contest's problems, the board leaves them out. Once a rated contest is finalized, entries also
+// carry their rating changes (see ratings.ts).
+//
+// Standings are cached in memory per contest. A contest's rows are loaded once and grouped by
+// participant, and each participant's entry is computed once. When a participant's results change,
+// updateParticipantStandings reloads only their rows; rejudges and problem changes invalidate the
+// contest. Requests then sort the cached entries and get one page of the board.
+
+const MAX_CACHED_CONTESTS = 50;
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+const MAX_REVEAL_ATTEMPTS = 5;
+
+export interface LeaderboardView {
+  viewerId: string | null; // The viewer's own results are never hidden
+  live: boolean; // Ignore the freeze
+}
+
+export interface LeaderboardPageRequest {
+  page?: number | 'me'; // 'me' is the page with the viewer's entry
+  pageSize?: number;
+}
+
+export interface PointsProblemResult {
+  problem_id: string;
+  score: number;
+  total_points: number;
+  solved: boolean; // All of the problem's points earned
+  solve_minutes: number | null; // Minutes from the start to the submission that got the current score
+  solved_at: string | null;
+}
+
+export type ProblemResult = (PointsProblemResult | IcpcProblemResult) & {
+  hidden: number; // Submissions with results hidden by the freeze
+  first_solve: boolean;
+};
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string;
+  total_score: number;
+  total_possible_score: number;
+  problems_solved: number;
+  total_problems: number;
+  verdict_counts: Partial<Record<Verdict, number>>;
+  hidden_problems: string[]; // Problems with results hidden by the freeze, in contest order
+  penalty?: number; // ICPC only
+  last_solve_minutes?: number; // ICPC only
+  problems: ProblemResult[]; // In contest order
+  rating_change: { old_rating: number; new_rating: number; performance: number } | null;
+}
+
+export interface Leaderboard {
+  viewer_id: string | null;
+  scoring_mode: ScoringMode;
+  problems: { id: string; title: string }[];
+  entries: LeaderboardEntry[]; // One page of the board
+  viewer_entry: LeaderboardEntry | null; // The viewer's entry, wherever it is on the board
+  page: number;
+  page_size: number;
+  total_entries: number;
+  freeze: {
+    freeze_time: string | null;
+    frozen: boolean; // Whether this board hides results
+    live: boolean; // An admin's live board while everyone else sees it frozen
+    revealed: number; // Hidden results revealed so far after the contest
+  };
+}
+
+export interface RevealedResult {
+  user_id: string;
+  username: string;
+  problem_id: string;
+  remaining: number; // Hidden results still to reveal
+}
+
+interface Participant {
+  userId: string;
+  row: any;
+  username: string;
+  attempts: any[]; // Every submission, oldest first
+  results: any[]; // The latest result on each problem
+  live: LeaderboardEntry;
+  public: LeaderboardEntry; // With the freeze applied; the live entry when the board isn't frozen
+}
+
+interface Standings {
+  contest: any;
+  settings: string; // The contest settings the entries were computed with
+  frozen: boolean; // Whether the public entries were computed for a frozen board
+  reveals: Set<string>;
+  problems: any[];
+  problemPoints: Record<string, number>;
+  totalPossibleScore: number;
+  ratingChanges: Map<string, any>; // By user, once the contest's ratings are finalized
+  participants: Map<string, Participant>;
+  sorted: { live: LeaderboardEntry[] | null; public: LeaderboardEntry[] | null };
+}
+
+const standingsCache = new Map<string, Promise<Standings>>();
+
+// Everything about a contest that its entries depend on
+const getSettingsKey = (contest: any) => JSON.stringify([
+  contest.scoring_mode,
+  contest.start_time,
+  contest.end_time,
+  contest.window_minutes,
+  contest.freeze_minutes,
+  contest.freeze_reveals,
+  contest.unfrozen_at
+]);
+
+export async function buildLeaderboard(
+  supabase: SupabaseClient,
+  contest: any,
+  view: LeaderboardView,
+  pageRequest: LeaderboardPageRequest = {}
+): Promise<Leaderboard> {
+  const standings = await getStandings(supabase, contest);
+  const scoringMode = getScoringMode(contest);
+  const frozen = standings.frozen && !view.live;
+  let entries = getSortedEntries(standings, frozen ? 'public' : 'live');
+
+  // On a frozen board, viewers still see their own results as they are
+  const viewer = view.viewerId ? standings.participants.get(view.viewerId) : undefined;
+  if (frozen && viewer && viewer.live !== viewer.public) {
+    entries = entries.filter(entry => entry.user_id !== viewer.userId);
+    const index = entries.findIndex(entry => compareEntries(scoringMode, viewer.live, entry) < 0);
+    entries.splice(index === -1 ? entries.length : index, 0, viewer.live);
+  }
+
+  const ranks = getRanks(scoringMode, entries);
+  const firstSolves = getFirstSolves(entries);
+  const showProblems = canSeeProblems(contest, view, viewer);
+  const toRankedEntry = (entry: LeaderboardEntry, index: number): LeaderboardEntry => ({
+    ...entry,
+    rank: ranks[index],
+    hidden_problems: showProblems ? entry.hidden_problems : [],
+    problems: showProblems
+      ? entry.problems.map(result => ({
+        ...result,
+        first_solve: !!result.solved_at && new Date(result.solved_at).getTime() === firstSolves.get(result.problem_id)
+      }))
+      : []
+  });
+
+  const pageSize = Math.min(Math.max(Math.floor(pageRequest.pageSize || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const totalPages = Math.max(1, Math.ceil(entries.length / pageSize));
+  const viewerIndex = viewer ? entries.findIndex(entry => entry.user_id === viewer.userId) : -1;
+  const requestedPage = pageRequest.page === 'me'
+    ? Math.floor(Math.max(viewerIndex, 0) / pageSize) + 1
+    : Math.floor(pageRequest.page || 1);
+  const page = Math.min(Math.max(requestedPage, 1), totalPages);
+  const pageStart = (page - 1) * pageSize;
+
+  const freezeTime = getFreezeTime(contest);
+  return {
+    viewer_id: view.viewerId,
+    scoring_mode: scoringMode,
+    problems: showProblems ? standings.problems.map(problem => ({ id: problem.id, title: problem.title })) : [],
+    entries: entries.slice(pageStart, pageStart + pageSize).map((entry, index) => toRankedEntry(entry, pageStart + index)),
+    viewer_entry: viewerIndex === -1 ? null : toRankedEntry(entries[viewerIndex], viewerIndex),
+    page,
+    page_size: pageSize,
+    total_entries: entries.length,
+    freeze: {
+      freeze_time: freezeTime?.toISOString() ?? null,
+      frozen,
+      live: standings.frozen && view.live,
+      revealed: standings.reveals.size
+    }
+  };
+}
+
+// Reload one participant's rows after their results change, e.g. when a submission is judged.
+// Contests that aren't cached are left alone; they are loaded in full when someone asks for them.
+export async function updateParticipantStandings(supabase: SupabaseClient, contestId: string, userId: string) {
+  const cached = standingsCache.get(contestId);
+  if (!cached) {
+    return;
+  }
+
+  try {
+    const standings = await cached;
+    const [participantResult, profileResult, attemptsResult, resultsResult] = await Promise.all([
+      supabase.from('contest_participants').select('*').eq('contest_id', contestId).eq('user_id', userId).maybeSingle(),
+      supabase.from('user_profiles').select('user_id, username').eq('user_id', userId).maybeSingle(),
+      supabase
+        .from('submissions')
+        .select('user_id, problem_id, verdict, status, points, created_at')
+        .eq('contest_id', contestId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true }),
+      supabase.from('contest_submissions').select('*').eq('contest_id', contestId).eq('user_id', userId)
+    ]);
+
+    const error = participantResult.error || profileResult.error || attemptsResult.error || resultsResult.error;
+    if (error) {
+      throw error;
+    }
+
+    if (!participantResult.data) {
+      standings.participants.delete(userId);
+    } else {
+      const participant = toParticipant(userId, participantResult.data, profileResult.data, attemptsResult.data, resultsResult.data);
+      standings.participants.set(userId, participant);
+      computeEntries(standings, participant);
+    }
+    standings.sorted = { live: null, public: null };
+  } catch (error) {
+    console.error(`Error updating standings of contest ${contestId}:`, error);
+    invalidateStandings(contestId);
+  }
+}
+
+// Drop a contest's cached standings, e.g. when its problems change or its submissions are rejudged
+export function invalidateStandings(contestId: string) {
+  standingsCache.delete(contestId);
+}
+
+// Usernames are cached along with the standings, so a rename has to reach every cached contest
+export function renameParticipant(userId: string, username: string) {
+  for (const cached of standingsCache.values()) {
+    cached.then(standings => {
+      const participant = standings.participants.get(userId);
+      if (participant) {
+        participant.username = username;
+        computeEntries(standings, participant);
+        standings.sorted = { live: null, public: null };
+      }
+    }).catch(() => {});
+  }
+}
+
+async function getStandings(supabase: SupabaseClient, contest: any): Promise<Standings> {
+  let cached = standingsCache.get(contest.id);
+  if (cached) {
+    // Maps iterate in insertion order; moving the contest to the end keeps the busiest ones cached
+    standingsCache.delete(contest.id);
+  } else {
+    cached = loadStandings(supabase, contest);
+    cached.catch(() => {
+      if (standingsCache.get(contest.id) === cached) {
+        standingsCache.delete(contest.id);
+      }
+    });
+  }
+  standingsCache.set(contest.id, cached);
+
+  while (standingsCache.size > MAX_CACHED_CONTESTS) {
+    standingsCache.delete(standingsCache.keys().next().value!);
+  }
+
+  // Entries only need computing again when the contest's settings change or its board freezes
+  const standings = await cached;
+  const settings = getSettingsKey(contest);
+  const frozen = isBoardFrozen(contest);
+  if (settings !== standings.settings || frozen !== standings.frozen) {
+    standings.contest = contest;
+    standings.settings = settings;
+    standings.frozen = frozen;
+    standings.reveals = new Set(contest.freeze_reveals || []);
+    for (const participant of standings.participants.values()) {
+      computeEntries(standings, participant);
+    }
+    standings.sorted = { live: null, public: null };
+  }
+
+  return standings;
+}
+
+async function loadStandings(supabase: SupabaseClient, contest: any): Promise<Standings> {
+  const { data: participants, error: participantsError } = await supabase
+    .from('contest_participants')
+    .select('*')
+    .eq('contest_id', contest.id);
+
+  if (participantsError) {
+    throw participantsError;
+  }
+
+  const { data: userProfiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('user_id, username')
+    .in('user_id', participants.map(p => p.user_id));
+
+  if (profilesError) {
+    throw profilesError;
+  }
+
+  const { data: problems, error: problemsError } = await supabase
+    .from('problems')
+    .select('*')
+    .eq('contest_id', contest.id)
+    .order('created_at', { ascending: true });
+
+  if (problemsError) {
+    throw problemsError;
+  }
+
+  // The latest result of each participant on each problem
+  const { data: submissions, error: submissionsError } = await supabase
+    .from('contest_submissions')
+    .select('*')
+    .eq('contest_id', contest.id);
+
+  if (submissionsError) {
+    throw submissionsError;
+  }
+
+  // Test cases give the total possible score of problems scored per test
+  const { data: testCases, error: testCasesError } = await supabase
+    .from('test_cases')
+    .select('problem_id')
+    .in('problem_id', problems.map(p => p.id));
+
+  if (testCasesError) {
+    throw testCasesError;
+  }
+
+  // Every attempt, for ICPC standings, first solves, and results as they stood at the freeze
+  const { data: attempts, error: attemptsError } = await supabase
+    .from('submissions')
+    .select('user_id, problem_id, verdict, status, points, created_at')
+    .eq('contest_id', contest.id)
+    .order('created_at', { ascending: true });
+
+  if (attemptsError) {
+    throw attemptsError;
+  }
+
+  const ratingChanges = contest.ratings_finalized_at ? await loadRatingChanges(supabase, contest.id) : new Map();
+
+  const testCounts = groupBy(testCases, testCase => testCase.problem_id);
+  const problemPoints: Record<string, number> = {};
+  for (const problem of problems) {
+    problemPoints[problem.id] = getTotalPoints(problem, testCounts.get(problem.id)?.length || 0);
+  }
+
+  const standings: Standings = {
+    contest,
+    settings: getSettingsKey(contest),
+    frozen: isBoardFrozen(contest),
+    reveals: new Set(contest.freeze_reveals || []),
+    problems,
+    problemPoints,
+    totalPossibleScore: Object.values(problemPoints).reduce((total, points) => total + points, 0),
+    ratingChanges,
+    participants: new Map(),
+    sorted: { live: null, public: null }
+  };
+
+  const profiles = new Map(userProfiles.map(profile => [profile.user_id, profile]));
+  const attemptsByUser = groupBy(attempts, attempt => attempt.user_id);
+  const resultsByUser = groupBy(submissions, sub => sub.user_id);
+  for (const row of participants) {
+    const participant = toParticipant(
+      row.user_id,
+      row,
+      profiles.get(row.user_id),
+      attemptsByUser.get(row.user_id) || [],
+      resultsByUser.get(row.user_id) || []
+    );
+    standings.participants.set(row.user_id, participant);
+    computeEntries(standings, participant);
+  }
+
+  return standings;
+}
+
+async function loadRatingChanges(supabase: SupabaseClient, contestId: string): Promise<Map<string, any>> {
+  const { data, error } = await supabase
+    .from('rating_changes')
+    .select('user_id, old_rating, new_rating, performance')
+    .eq('contest_id', contestId);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(data.map(change => [change.user_id, change]));
+}
+
+function toParticipant(userId: string, row: any, profile: any, attempts: any[], results: any[]): Participant {
+  // The entries are filled in by computeEntries
+  return { userId, row, username: profile?.username || 'Anonymous User', attempts, results } as Participant;
+}
+
+function computeEntries(standings: Standings, participant: Participant) {
+  participant.live = computeEntry(standings, participant, false);
+  participant.public = standings.frozen ? computeEntry(standings, participant, true) : participant.live;
+}
+
+function computeEntry(standings: Standings, participant: Participant, applyFreeze: boolean): LeaderboardEntry {
+  const { contest, problems, problemPoints, reveals } = standings;
+  const freezeTime = getFreezeTime(contest);
+
+  // Results of submissions after the freeze stay hidden until revealed
+  const isHidden = (problemId: string, submittedAt: string) => {
+    return applyFreeze &&
+      new Date(submittedAt) >= freezeTime! &&
+      !reveals.has(getRevealKey(participant.userId, problemId));
+  };
+
+  const visibleAttempts = participant.attempts.filter(attempt => !isHidden(attempt.problem_id, attempt.created_at));
+  const attemptsByProblem = groupBy(visibleAttempts, attempt => attempt.problem_id);
+
+  // The clock starts at the contest's start, or in windowed contests at the participant's own start
+  const startTime = contest.window_minutes && participant.row.window_started_at
+    ? participant.row.window_started_at
+    : contest.start_time;
+
+  // A hidden result falls back to the latest judged submission before it that is still visible
+  const userSubmissions = participant.results
+    .map(sub => {
+      if (!isHidden(sub.problem_id, sub.submitted_at)) {
+        return sub;
+      }
+      const previous = (attemptsByProblem.get(sub.problem_id) || [])
+        .filter(attempt => attempt.status === 'DONE' && attempt.verdict !== 'IE')
+        .pop();
+      return previous
+        ? { ...sub, score: previous.points || 0, verdict: previous.verdict, submitted_at: previous.created_at }
+        : null;
+    })
+    .filter(sub => sub !== null);
+
+  const totalScore = userSubmissions.reduce((sum, sub) => sum + sub.score, 0);
+
+  // Only count problems as solved if user earned all of their points
+  const isSolved = (sub: any) => problemPoints[sub.problem_id] > 0 && sub.score >= problemPoints[sub.problem_id];
+  const problemsSolved = userSubmissions.filter(isSolved).length;
+
+  // Count the latest verdict on each problem
+  const verdictCounts = userSubmissions.reduce((counts: Partial<Record<Verdict, number>>, sub) => {
+    const verdict = sub.verdict;
+    if (isVerdict(verdict)) {
+      counts[verdict] = (counts[verdict] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+  const hiddenCounts: Record<string, number> = {};
+  for (const attempt of participant.attempts) {
+    if (isHidden(attempt.problem_id, attempt.created_at)) {
+      hiddenCounts[attempt.problem_id] = (hiddenCounts[attempt.problem_id] || 0) + 1;
+    }
+  }
+
+  const ratingChange = standings.ratingChanges.get(participant.userId);
+  const entry = {
+    rank: 0,
+    user_id: participant.userId,
+    username: participant.username,
+    total_score: totalScore,
+    total_possible_score: standings.totalPossibleScore,
+    problems_solved: problemsSolved,
+    total_problems: problems.length,
+    verdict_counts: verdictCounts,
+    rating_change: ratingChange
+      ? { old_rating: ratingChange.old_rating, new_rating: ratingChange.new_rating, performance: ratingChange.performance }
+      : null
+  };
+
+  if (getScoringMode(contest) !== 'icpc') {
+    const problemResults = problems.map(problem => {
+      const sub = userSubmissions.find(s => s.problem_id === problem.id);
+      const solved = !!sub && isSolved(sub);
+      const firstFullScore = (attemptsByProblem.get(problem.id) || []).find(attempt =>
+        attempt.status === 'DONE' && attempt.points >= problemPoints[problem.id]
+      );
+      return {
+        problem_id: problem.id,
+        score: sub?.score || 0,
+        total_points: problemPoints[problem.id],
+        solved,
+        solve_minutes: sub ? getContestMinutes(startTime, sub.submitted_at) : null,
+        solved_at: solved ? firstFullScore?.created_at ?? sub.submitted_at : null,
+        hidden: hiddenCounts[problem.id] || 0,
+        first_solve: false
+      };
+    });
+
+    return {
+      ...entry,
+      hidden_problems: problemResults.filter(result => result.hidden > 0).map(result => result.problem_id),
+      problems: problemResults
+    };
+  }
+
+  const problemResults = problems.map(problem => {
+    const result = getIcpcProblemResult(problem.id, attemptsByProblem.get(problem.id) || [], startTime);
+    // Submissions after a visible accepted one can't change the result, so there is nothing to hide
+    return { ...result, hidden: result.solved ? 0 : hiddenCounts[problem.id] || 0, first_solve: false };
+  });
+
+  return {
+    ...entry,
+    ...getIcpcTotals(problemResults),
+    hidden_problems: problemResults.filter(result => result.hidden > 0).map(result => result.problem_id),
+    problems: problemResults
+  };
+}
+
+function getSortedEntries(standings: Standings, board: 'live' | 'public'): LeaderboardEntry[] {
+  if (!standings.sorted[board]) {
+    const scoringMode = getScoringMode(standings.contest);
+    standings.sorted[board] = Array.from(standings.participants.values())
+      .map(participant => participant[board])
+      .sort((a, b) => compareEntries(scoringMode, a, b));
+  }
+  return standings.sorted[board]!;
+}
+
+// Tied participants share the better rank, and the next one skips past them (1, 1, 3)
+function getRanks(scoringMode: ScoringMode, entries: LeaderboardEntry[]): number[] {
+  const ranks: number[] = [];
+  entries.forEach((entry, index) => {
+    ranks[index] = index > 0 && compareEntries(scoringMode, entries[index - 1], entry) === 0 ? ranks[index - 1] : index + 1;
+  });
+  return ranks;
+}
+
+const getScoringMode = (contest: any): ScoringMode => contest.scoring_mode || DEFAULT_SCORING_MODE;
+
+// Points: by total score (descending), then by problems solved (descending). ICPC: see compareIcpcTotals
+function compareEntries(scoringMode: ScoringMode, a: LeaderboardEntry, b: LeaderboardEntry): number {
+  if (scoringMode === 'icpc') {
+    return compareIcpcTotals(a as Required<LeaderboardEntry>, b as Required<LeaderboardEntry>);
+  }
+  if (b.total_score !== a.total_score) {
+    return b.total_score - a.total_score;
+  }
+  return b.problems_solved - a.problems_solved;
+}
+
+// The earliest solve of each problem; solves at the very same moment are all first
+function getFirstSolves(entries: LeaderboardEntry[]): Map<string, number> {
+  const firstSolves = new Map<string, number>();
+  for (const entry of entries) {
+    for (const result of entry.problems) {
+      if (result.solved_at) {
+        const solvedAt = new Date(result.solved_at).getTime();
+        firstSolves.set(result.problem_id, Math.min(solvedAt, firstSolves.get(result.problem_id) ?? Infinity));
+      }
+    }
+  }
+  return firstSolves;
+}
+
+// Problems stay off the board until the contest starts, and in windowed contests until the viewer's
+// window does. Admins see them on the live board, and on the public board once the contest starts.
+function canSeeProblems(contest: any, view: LeaderboardView, viewer: Participant | undefined): boolean {
+  if (view.live) {
+    return true;
+  }
+  if (new Date(contest.start_time).getTime() > Date.now()) {
+    return false;
+  }
+  return !contest.window_minutes || !view.viewerId || !!viewer?.row.window_started_at;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(getKey(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(getKey(item), [item]);
+    }
+  }
+  return groups;
+}
+
+// The final standings of a contest for rating it. Only participants who submitted something are
+// rated, and they are ranked among themselves.
+export async function getRatedStandings(supabase: SupabaseClient, contest: any): Promise<{ user_id: string; rank: number }[]> {
+  const standings = await getStandings(supabase, contest);
+  const entries = getSortedEntries(standings, 'live')
+    .filter(entry => standings.participants.get(entry.user_id)!.attempts.length > 0);
+  const ranks = getRanks(getScoringMode(contest), entries);
+  return entries.map((entry, index) => ({ user_id: entry.user_id, rank: ranks[index] }));
+}
+
+// Reveal one hidden result of a frozen contest, resolver-style: the lowest ranked participant with
+// hidden results goes first, one problem at a time in contest order. Once nothing is left to reveal,
+// the board is unfrozen for good. Returns null when there was nothing to reveal.
+//
+// Each reveal only applies if nobody else revealed a result since the contest was read; otherwise
+// the contest is read again and the next result worked out afresh, so concurrent reveals never
+// overwrite each other.
+export async function revealNextResult(supabase: SupabaseClient, contest: any): Promise<RevealedResult | null> {
+  for (let attempt = 0; attempt < MAX_REVEAL_ATTEMPTS; attempt++) {
+    if (contest.unfrozen_at) {
+      return null;
+    }
+
+    const entries = getSortedEntries(await getStandings(supabase, contest), 'public');
+    const hiddenResults = entries.reduce((total, entry) => total + entry.hidden_problems.length, 0);
+    const entry = [...entries].reverse().find(e => e.hidden_problems.length > 0);
+
+    if (!entry) {
+      await unfreezeBoard(supabase, contest);
+      return null;
+    }
+
+    const problemId = entry.hidden_problems[0];
+    const previousReveals: string[] | null = contest.freeze_reveals;
+    let update = supabase
+      .from('contests')
+      .update({
+        freeze_reveals: [...(previousReveals || []), getRevealKey(entry.user_id, problemId)],
+        unfrozen_at: hiddenResults === 1 ? new Date().toISOString() : null
+      })
+      .eq('id', contest.id)
+      .is('unfrozen_at', null);
+    update = previousReveals
+      ? update.filter('freeze_reveals', 'eq', toArrayLiteral(previousReveals))
+      : update.is('freeze_reveals', null);
+    const { data: updated, error } = await update.select('id');
+
+    if (error) {
+      throw error;
+    }
+    if (updated.length > 0) {
+      return { user_id: entry.user_id, username: entry.username, problem_id: problemId, remaining: hiddenResults - 1 };
+    }
+
+    // Someone else got there first
+    const { data: current, error: contestError } = await supabase
+      .from('contests')
+      .select('*')
+      .eq('id', contest.id)
+      .single();
+
+    if (contestError) {
+      throw contestError;
+    }
+    contest = current;
+  }
+
+  throw new Error(`Could not reveal a result of contest ${contest.id}: too many concurrent reveals`);
+}
+
+// A Postgres array literal, for comparing array columns
+const toArrayLiteral = (values: string[]) => `{${values.map(value => JSON.stringify(value)).join(',')}}`;
+
+// Reveal everything at once
+export async function unfreezeBoard(supabase: SupabaseClient, contest: any) {
+  const { error } = await supabase
+    .from('contests')
+    .update({ unfrozen_at: new Date().toISOString() })
+    .eq('id', contest.id);
+
+  if (error) {
+    throw error;
+  }
+}
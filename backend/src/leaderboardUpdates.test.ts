@@ -0,0 +1,124 @@
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { buildLeaderboard } from './leaderboard';
+import { attachLeaderboardSockets, notifyLeaderboardChanged } from './leaderboardUpdates';
+
+jest.mock('./leaderboard', () => ({ buildLeaderboard: jest.fn() }));
+
+const contest = { id: 'contest' };
+const supabase: any = {
+  from: () => ({ select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: contest }) }) }) })
+};
+
+let server: http.Server;
+let port: number;
+
+beforeAll(async () => {
+  server = http.createServer();
+  attachLeaderboardSockets(server, supabase, async token => token === 'valid' ? { viewerId: 'viewer', live: false } : 'Invalid token');
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const LIVE_PATH = '/api/contests/contest/leaderboard/live';
+
+// Connect and collect every message the server sends
+const connect = async () => {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${LIVE_PATH}`);
+  const messages: any[] = [];
+  socket.on('message', data => messages.push(JSON.parse(data.toString())));
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  return { socket, messages };
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  expect(condition()).toBe(true);
+};
+
+test('a malformed frame drops the client without taking the server down', async () => {
+  const raw = net.connect(port, '127.0.0.1');
+  const closed = new Promise(resolve => raw.on('close', resolve));
+  raw.on('error', () => {});
+  raw.write([
+    `GET ${LIVE_PATH} HTTP/1.1`,
+    'Host: 127.0.0.1',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+    'Sec-WebSocket-Version: 13',
+    '',
+    ''
+  ].join('\r\n'));
+  await new Promise(resolve => raw.once('data', resolve));
+
+  // Clients must mask their frames; this one isn't
+  raw.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+  await closed;
+
+  const { socket, messages } = await connect();
+  socket.send(JSON.stringify({ type: 'hello' }));
+  await waitFor(() => messages.length > 0);
+  expect(messages[0]).toEqual({ type: 'error', error: 'Authentication required' });
+  socket.close();
+});
+
+const entry = (userId: string, totalScore: number): any => ({ user_id: userId, username: userId, total_score: totalScore });
+
+const board = (entries: any[]): any => ({
+  viewer_id: 'viewer',
+  scoring_mode: 'points',
+  problems: [],
+  entries,
+  viewer_entry: null,
+  page: 1,
+  page_size: 50,
+  total_entries: entries.length,
+  freeze: { frozen: false }
+});
+
+test('deltas carry only the entries that changed or are new to the page', async () => {
+  const mockedBuild = buildLeaderboard as jest.MockedFunction<typeof buildLeaderboard>;
+  mockedBuild.mockResolvedValue(board([entry('alice', 3), entry('bob', 2), entry('carol', 1)]));
+  const { socket, messages } = await connect();
+  socket.send(JSON.stringify({ type: 'auth', token: 'valid' }));
+  await waitFor(() => messages.length === 1);
+  expect(messages[0].type).toBe('snapshot');
+
+  // carol moves to the top, dave joins the page, and alice and bob stay as they were
+  mockedBuild.mockResolvedValue(board([entry('carol', 5), entry('alice', 3), entry('bob', 2), entry('dave', 2)]));
+  notifyLeaderboardChanged('contest');
+  await waitFor(() => messages.length === 2);
+
+  expect(messages[1]).toMatchObject({
+    type: 'delta',
+    changed: [entry('carol', 5), entry('dave', 2)],
+    order: ['carol', 'alice', 'bob', 'dave'],
+    total_entries: 4
+  });
+
+  // Nothing changed, so nothing is sent
+  notifyLeaderboardChanged('contest');
+  await new Promise(resolve => setTimeout(resolve, 1500));
+  expect(messages).toHaveLength(2);
+  socket.close();
+});
@@ -0,0 +1,234 @@
+import http from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { buildLeaderboard, Leaderboard, LeaderboardEntry, LeaderboardPageRequest, LeaderboardView } from './leaderboard';
+
+// Live leaderboards over WebSocket.
+//
+// Clients connect to /api/contests/:contestId/leaderboard/live and send { type: 'auth', token, view, page }
+// first, since browsers can't set headers on WebSocket requests and tokens don't belong in URLs.
+// They get a snapshot of their page of the board, then deltas: the entries of the page that changed
+// and its new order. Sending { type: 'page', page } switches pages with a new snapshot.
+// Whenever a contest result changes, notifyLeaderboardChanged schedules an update; bursts of results
+// are batched. Boards come from the cached standings, so each subscriber gets their own.
+
+const LIVE_PATH = /^\/api\/contests\/([^/]+)\/leaderboard\/live$/;
+const UPDATE_DELAY_MS = 1000;
+const AUTH_TIMEOUT_MS = 10000;
+const PING_INTERVAL_MS = 30000;
+
+export type LeaderboardMessage =
+  | { type: 'snapshot'; leaderboard: Leaderboard }
+  | {
+    type: 'delta';
+    changed: LeaderboardEntry[];
+    order: string[];
+    viewer_entry: LeaderboardEntry | null;
+    page: number;
+    total_entries: number;
+    freeze: Leaderboard['freeze'];
+  }
+  | { type: 'error'; error: string };
+
+// Decides which board a user may follow; a string is the reason they can't
+export type AuthorizeSubscriber = (token: string, contestId: string, publicView: boolean) => Promise<LeaderboardView | string>;
+
+interface Subscriber {
+  socket: WebSocket;
+  view: LeaderboardView;
+  page: LeaderboardPageRequest;
+  entries: Map<string, string>; // The entries last sent, serialized, by user
+  order: string[];
+  summary: string; // Everything else last sent, serialized
+  ping?: NodeJS.Timeout;
+}
+
+const subscribers = new Map<string, Set<Subscriber>>();
+const scheduledUpdates = new Map<string, NodeJS.Timeout>();
+let database: SupabaseClient | null = null;
+
+export function attachLeaderboardSockets(server: http.Server, supabase: SupabaseClient, authorize: AuthorizeSubscriber) {
+  database = supabase;
+  const sockets = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    // Errors on the connection must not go unhandled, or they take the whole server down
+    socket.on('error', error => {
+      console.error('Live leaderboard connection error:', error.message);
+      socket.destroy();
+    });
+
+    const match = LIVE_PATH.exec(new URL(req.url || '', 'http://localhost').pathname);
+    if (!match) {
+      socket.destroy();
+      return;
+    }
+    sockets.handleUpgrade(req, socket, head, ws => handleConnection(ws, match[1], authorize));
+  });
+}
+
+function handleConnection(socket: WebSocket, contestId: string, authorize: AuthorizeSubscriber) {
+  const fail = (error: string) => {
+    send(socket, { type: 'error', error });
+    socket.close(1008, error);
+  };
+  const authTimer = setTimeout(() => fail('Authentication timed out'), AUTH_TIMEOUT_MS);
+  let subscriber: Subscriber | null = null;
+
+  // Broken frames and the like; the client is dropped
+  socket.on('error', error => {
+    console.error('Live leaderboard socket error:', error.message);
+    clearTimeout(authTimer);
+    if (subscriber) {
+      unsubscribe(contestId, subscriber);
+    }
+    socket.terminate();
+  });
+
+  socket.once('message', async (data) => {
+    clearTimeout(authTimer);
+    try {
+      const message = JSON.parse(data.toString());
+      if (message?.type !== 'auth' || typeof message.token !== 'string') {
+        return fail('Authentication required');
+      }
+
+      const view = await authorize(message.token, contestId, message.view === 'public');
+      if (typeof view === 'string') {
+        return fail(view);
+      }
+
+      const contest = await getContest(contestId);
+      if (!contest) {
+        return fail('Contest not found');
+      }
+
+      const page = { page: parsePage(message.page), pageSize: Number(message.pageSize) || undefined };
+      const leaderboard = await buildLeaderboard(database!, contest, view, page);
+      if (socket.readyState !== WebSocket.OPEN) {
+        return; // Gone while the board was being built
+      }
+      const opened: Subscriber = { socket, view, page, entries: new Map(), order: [], summary: '' };
+      remember(opened, leaderboard);
+      send(socket, { type: 'snapshot', leaderboard });
+      subscribe(contestId, opened);
+      subscriber = opened;
+      socket.on('message', data => changePage(contestId, opened, data.toString()));
+    } catch (error) {
+      console.error('Error opening live leaderboard:', error);
+      fail('Internal server error');
+    }
+  });
+}
+
+async function changePage(contestId: string, subscriber: Subscriber, data: string) {
+  try {
+    const message = JSON.parse(data);
+    if (message?.type !== 'page') {
+      return;
+    }
+
+    subscriber.page = { ...subscriber.page, page: parsePage(message.page) };
+    const contest = await getContest(contestId);
+    if (!contest) {
+      return;
+    }
+
+    const leaderboard = await buildLeaderboard(database!, contest, subscriber.view, subscriber.page);
+    remember(subscriber, leaderboard);
+    send(subscriber.socket, { type: 'snapshot', leaderboard });
+  } catch (error) {
+    console.error('Error changing live leaderboard page:', error);
+  }
+}
+
+const parsePage = (page: any): LeaderboardPageRequest['page'] => page === 'me' ? 'me' : Number(page) || undefined;
+
+function subscribe(contestId: string, subscriber: Subscriber) {
+  const contestSubscribers = subscribers.get(contestId) || new Set();
+  contestSubscribers.add(subscriber);
+  subscribers.set(contestId, contestSubscribers);
+
+  // Pings keep idle proxies from dropping the connection between results
+  subscriber.ping = setInterval(() => subscriber.socket.ping(), PING_INTERVAL_MS);
+  subscriber.socket.on('close', () => unsubscribe(contestId, subscriber));
+}
+
+function unsubscribe(contestId: string, subscriber: Subscriber) {
+  clearInterval(subscriber.ping);
+  const contestSubscribers = subscribers.get(contestId);
+  if (contestSubscribers?.delete(subscriber) && contestSubscribers.size === 0) {
+    subscribers.delete(contestId);
+  }
+}
+
+// Schedule an update of a contest's live leaderboards
+export function notifyLeaderboardChanged(contestId: string) {
+  if (!subscribers.has(contestId) || scheduledUpdates.has(contestId)) {
+    return;
+  }
+
+  scheduledUpdates.set(contestId, setTimeout(() => {
+    scheduledUpdates.delete(contestId);
+    sendUpdates(contestId).catch(error => {
+      console.error(`Error updating live leaderboard of contest ${contestId}:`, error);
+    });
+  }, UPDATE_DELAY_MS));
+}
+
+async function sendUpdates(contestId: string) {
+  const contest = await getContest(contestId);
+  const contestSubscribers = subscribers.get(contestId);
+  if (!contest || !contestSubscribers) {
+    return;
+  }
+
+  for (const subscriber of contestSubscribers) {
+    const leaderboard = await buildLeaderboard(database!, contest, subscriber.view, subscriber.page);
+    const changed = leaderboard.entries.filter(entry => subscriber.entries.get(entry.user_id) !== JSON.stringify(entry));
+    const order = leaderboard.entries.map(entry => entry.user_id);
+    const orderChanged = order.join() !== subscriber.order.join();
+    const summaryChanged = getSummary(leaderboard) !== subscriber.summary;
+
+    if (changed.length > 0 || orderChanged || summaryChanged) {
+      remember(subscriber, leaderboard);
+      send(subscriber.socket, {
+        type: 'delta',
+        changed,
+        order,
+        viewer_entry: leaderboard.viewer_entry,
+        page: leaderboard.page,
+        total_entries: leaderboard.total_entries,
+        freeze: leaderboard.freeze
+      });
+    }
+  }
+}
+
+function remember(subscriber: Subscriber, leaderboard: Leaderboard) {
+  subscriber.entries = new Map(leaderboard.entries.map(entry => [entry.user_id, JSON.stringify(entry)]));
+  subscriber.order = leaderboard.entries.map(entry => entry.user_id);
+  subscriber.summary = getSummary(leaderboard);
+}
+
+const getSummary = (leaderboard: Leaderboard) => JSON.stringify([
+  leaderboard.viewer_entry,
+  leaderboard.page,
+  leaderboard.total_entries,
+  leaderboard.freeze
+]);
+
+async function getContest(contestId: string) {
+  const { data: contest } = await database!
+    .from('contests')
+    .select('*')
+    .eq('id', contestId)
+    .maybeSingle();
+  return contest;
+}
+
+function send(socket: WebSocket, message: LeaderboardMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
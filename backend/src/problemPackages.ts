@@ -0,0 +1,406 @@
+import AdmZip from 'adm-zip';
+import { isUtf8 } from 'buffer';
+import path from 'path';
+import YAML from 'yaml';
+import { ArchiveTestCase, MAX_TEST_FILE_BYTES, MAX_TEST_DATA_BYTES } from './testData';
+import { CUSTOM_CHECKER_ID, getBuiltinChecker } from './checkers';
+import { getLanguage } from './languages';
+
+// Problem packages in the Kattis problem package format (https://www.kattis.com/problem-package-format/),
+// so problems written elsewhere can be imported instead of re-keyed, and WMOJ problems can be exported:
+//
+//   problem.yaml                         name, type (pass-fail or scoring), limits, validation
+//   problem_statement/problem.en.md      the statement in Markdown (statement/ and problem.md also work)
+//   data/sample/*.in, *.ans              samples
+//   data/secret/*.in, *.ans              hidden tests; in scoring problems each folder is a batch
+//   data/secret/<group>/testdata.yaml    accept_score (and grader_flags) set the batch's points
+//   output_validators/<name>/<source>    a custom checker
+//
+// Kattis output validators talk to the judge differently than WMOJ checkers, so a custom checker is only
+// imported when problem.yaml names the WMOJ language it is written in. Exports add a `wmoj` section to
+// problem.yaml with what the format cannot express (the exact checker, batch names and dependencies and
+// the batch of each sample), so a problem comes back unchanged when it is exported and imported again.
+
+const STATEMENT_PATHS = [
+  'problem_statement/problem.en.md',
+  'problem_statement/problem.md',
+  'statement/problem.en.md',
+  'statement/problem.md'
+];
+const VALIDATOR_DIR = 'output_validators/';
+const DEFAULT_GROUP_POINTS = 1;
+
+export interface PackageFileError {
+  file: string;
+  message: string;
+}
+
+export class ProblemPackageError extends Error {
+  constructor(public errors: PackageFileError[]) {
+    super(errors.map(error => `${error.file}: ${error.message}`).join('\n'));
+  }
+}
+
+export interface ProblemPackage {
+  title: string;
+  description: string;
+  timeLimitMs: number | null; // Null when the package leaves the limit to the judge
+  memoryLimitMb: number | null;
+  // Checker settings shaped like the admin problem form, validated the same way
+  checker: { checker: string; checker_precision: number | null; checker_language: string | null; checker_source: string | null };
+  batches: { name: string; points: number; dependencies: number[] }[];
+  testCases: ArchiveTestCase[];
+}
+
+// Dotfiles are skipped, apart from the .timelimit file some judges use instead of limits.time_limit
+const isIgnoredEntry = (entryName: string) => {
+  const basename = path.posix.basename(entryName);
+  return entryName.startsWith('__MACOSX/') || (basename.startsWith('.') && basename !== '.timelimit');
+};
+
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// Kattis validator flags mapped onto the closest built-in checker
+const fromValidatorFlags = (flags: string): ProblemPackage['checker'] => {
+  const tokens = flags.split(/\s+/).filter(Boolean);
+  const flagValue = (flag: string) => {
+    const index = tokens.indexOf(flag);
+    return index === -1 ? null : Number(tokens[index + 1]);
+  };
+
+  const builtin = (checker: string, precision: number | null = null) => ({
+    checker,
+    checker_precision: precision,
+    checker_language: null,
+    checker_source: null
+  });
+
+  if (flagValue('float_absolute_tolerance') !== null) {
+    return builtin('float-absolute', flagValue('float_absolute_tolerance'));
+  }
+  // float_tolerance accepts an answer within either tolerance, which the relative checker already does
+  const relativeTolerance = flagValue('float_relative_tolerance') ?? flagValue('float_tolerance');
+  if (relativeTolerance !== null) {
+    return builtin('float-relative', relativeTolerance);
+  }
+  if (tokens.includes('space_change_sensitive')) {
+    return builtin('line');
+  }
+  return builtin(tokens.includes('case_sensitive') ? 'token' : 'case-insensitive');
+};
+
+// Built-in checkers written out as the Kattis validator flags that judge closest to them
+const toValidatorFlags = (checker: string, precision: number | null) => {
+  switch (checker) {
+    case 'float-absolute':
+      return `float_absolute_tolerance ${precision ?? 1e-6}`;
+    case 'float-relative':
+      return `float_relative_tolerance ${precision ?? 1e-6}`;
+    case 'token':
+      return 'case_sensitive';
+    case 'case-insensitive':
+      return '';
+    default:
+      return 'case_sensitive space_change_sensitive';
+  }
+};
+
+// A Kattis group's points: accept_score per test, added up unless grader_flags asks for the minimum
+const getGroupPoints = (testdata: any, testCount: number) => {
+  const acceptScore = Number(testdata?.accept_score ?? DEFAULT_GROUP_POINTS);
+  const flags = String(testdata?.grader_flags || '').split(/\s+/);
+  return flags.includes('min') ? acceptScore : acceptScore * testCount;
+};
+
+// Read and check a problem package; every problem found is reported with the file it is in
+export function readProblemPackage(archivePath: string): ProblemPackage {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(archivePath);
+  } catch {
+    throw new ProblemPackageError([{ file: path.basename(archivePath), message: 'Not a valid zip archive' }]);
+  }
+
+  const errors: PackageFileError[] = [];
+  const fail = (file: string, message: string) => errors.push({ file, message });
+
+  // Packages are often zipped with their folder, so problem.yaml may be one level down
+  const entries = zip.getEntries().filter(entry => !entry.isDirectory && !entry.entryName.startsWith('__MACOSX/'));
+  const problemYamlEntry = entries
+    .filter(entry => path.posix.basename(entry.entryName) === 'problem.yaml' && entry.entryName.split('/').length <= 2)
+    .sort((a, b) => a.entryName.length - b.entryName.length)[0];
+  if (!problemYamlEntry) {
+    throw new ProblemPackageError([{ file: 'problem.yaml', message: 'Missing; is this a Kattis problem package?' }]);
+  }
+  const root = problemYamlEntry.entryName.slice(0, -'problem.yaml'.length);
+
+  const files = new Map<string, AdmZip.IZipEntry>();
+  let totalBytes = 0;
+  for (const entry of entries) {
+    if (!entry.entryName.startsWith(root) || isIgnoredEntry(entry.entryName)) {
+      continue;
+    }
+
+    const file = entry.entryName.slice(root.length);
+    if (entry.header.size > MAX_TEST_FILE_BYTES) {
+      throw new ProblemPackageError([{ file, message: `Larger than ${MAX_TEST_FILE_BYTES / 1024 / 1024} MB` }]);
+    }
+    totalBytes += entry.header.size;
+    if (totalBytes > MAX_TEST_DATA_BYTES) {
+      throw new ProblemPackageError([{ file, message: `The package can be at most ${MAX_TEST_DATA_BYTES / 1024 / 1024} MB uncompressed` }]);
+    }
+    files.set(file, entry);
+  }
+
+  const readText = (file: string) => files.get(file)!.getData().toString('utf8');
+  const readYaml = (file: string): any => {
+    try {
+      return YAML.parse(readText(file)) ?? {};
+    } catch (error) {
+      fail(file, `Invalid YAML: ${error instanceof Error ? error.message : error}`);
+      return {};
+    }
+  };
+
+  // Metadata and limits
+  const config = readYaml('problem.yaml');
+  const wmoj = config.wmoj && typeof config.wmoj === 'object' ? config.wmoj : {};
+
+  const name = typeof config.name === 'object' && config.name !== null
+    ? config.name.en ?? Object.values(config.name)[0]
+    : config.name;
+  if (typeof name !== 'string' || !name.trim()) {
+    fail('problem.yaml', 'Missing the problem name');
+  }
+
+  const types = Array.isArray(config.type) ? config.type : [config.type || 'pass-fail'];
+  const isScoring = types.includes('scoring');
+  if (types.includes('interactive') || String(config.validation || '').includes('interactive')) {
+    fail('problem.yaml', 'Interactive problems are not supported');
+  }
+
+  let timeLimitMs: number | null = null;
+  if (config.limits?.time_limit !== undefined) {
+    timeLimitMs = Math.round(Number(config.limits.time_limit) * 1000);
+  } else if (files.has('.timelimit')) {
+    timeLimitMs = Math.round(Number(readText('.timelimit').trim()) * 1000);
+  }
+  const memoryLimitMb = config.limits?.memory !== undefined ? Number(config.limits.memory) : null;
+
+  // Statement
+  const statementPath = STATEMENT_PATHS.find(file => files.has(file));
+  if (!statementPath) {
+    const latexStatement = Array.from(files.keys()).find(file => /^(problem_)?statement\/.*\.tex$/.test(file));
+    if (latexStatement) {
+      fail(latexStatement, 'LaTeX statements are not supported; add the statement in Markdown as problem.en.md');
+    } else {
+      fail(STATEMENT_PATHS[0], 'Missing the problem statement');
+    }
+  }
+
+  // Checker
+  const validatorFiles = Array.from(files.keys()).filter(file => file.startsWith(VALIDATOR_DIR));
+  let checker: ProblemPackage['checker'];
+  if (String(config.validation || 'default').startsWith('custom') || wmoj.checker === CUSTOM_CHECKER_ID) {
+    checker = { checker: CUSTOM_CHECKER_ID, checker_precision: null, checker_language: wmoj.checker_language ?? null, checker_source: null };
+    if (validatorFiles.length !== 1) {
+      fail(VALIDATOR_DIR, validatorFiles.length === 0
+        ? 'Missing the custom checker source'
+        : 'The custom checker must be a single source file');
+    } else if (!getLanguage(wmoj.checker_language)) {
+      fail(validatorFiles[0], 'Kattis output validators are not supported. Rewrite it as a WMOJ checker ' +
+        '(exit code 0 accepts, 1 rejects) and set wmoj.checker_language in problem.yaml');
+    } else {
+      checker.checker_source = readText(validatorFiles[0]);
+    }
+  } else if (wmoj.checker) {
+    checker = { checker: wmoj.checker, checker_precision: wmoj.checker_precision ?? null, checker_language: null, checker_source: null };
+  } else {
+    checker = fromValidatorFlags(String(config.validator_flags || ''));
+  }
+
+  // Test data: pair every .in with its .ans
+  const pairs = new Map<string, { input?: string; answer?: string }>();
+  for (const file of files.keys()) {
+    if (!file.startsWith('data/')) {
+      continue;
+    }
+
+    const extension = path.posix.extname(file);
+    if (extension === '.interaction') {
+      fail(file, 'Interactive problems are not supported');
+    }
+    if (extension !== '.in' && extension !== '.ans') {
+      continue; // testdata.yaml, hints, descriptions and images
+    }
+    if (!file.startsWith('data/sample/') && !file.startsWith('data/secret/')) {
+      fail(file, 'Test data must be in data/sample or data/secret');
+      continue;
+    }
+    if (extension === '.ans' && !isUtf8(files.get(file)!.getData())) {
+      fail(file, 'Answer files must be UTF-8 text');
+      continue;
+    }
+
+    const testName = file.slice('data/'.length, -extension.length);
+    const pair = pairs.get(testName) || {};
+    if (extension === '.in') {
+      pair.input = file;
+    } else {
+      pair.answer = file;
+    }
+    pairs.set(testName, pair);
+  }
+
+  const samples: { name: string; input: string; answer: string }[] = [];
+  const groups = new Map<string, { name: string; input: string; answer: string }[]>();
+  for (const [testName, pair] of pairs) {
+    if (!pair.input || !pair.answer) {
+      fail(pair.input || pair.answer!, pair.input ? 'Missing its answer file (.ans)' : 'Missing its input file (.in)');
+      continue;
+    }
+
+    const test = { name: testName, input: pair.input, answer: pair.answer };
+    if (testName.startsWith('sample/')) {
+      samples.push(test);
+      continue;
+    }
+
+    // secret/<group>/.../<test> in scoring problems; everything else goes in one unnamed group
+    const segments = testName.split('/');
+    const group = isScoring && segments.length > 2 ? segments[1] : '';
+    if (isScoring && group === '' && Array.from(pairs.keys()).some(other => other.split('/').length > 2)) {
+      fail(pair.input, 'In a scoring problem with test groups, every secret test must be in a group folder');
+      continue;
+    }
+    groups.set(group, [...(groups.get(group) || []), test]);
+  }
+
+  if (samples.length === 0 && groups.size === 0) {
+    fail('data/', 'The package has no test data');
+  }
+
+  // Batches, one per test group
+  const groupNames = Array.from(groups.keys()).filter(group => group !== '').sort(byName);
+  const batches = groupNames.map((group, index) => {
+    const exported = Array.isArray(wmoj.batches) && wmoj.batches.length === groupNames.length ? wmoj.batches[index] : null;
+    if (exported) {
+      return { name: exported.name, points: exported.points, dependencies: exported.dependencies || [] };
+    }
+
+    const testdataPath = `data/secret/${group}/testdata.yaml`;
+    const testdata = files.has(testdataPath) ? readYaml(testdataPath) : {};
+    return { name: group, points: getGroupPoints(testdata, groups.get(group)!.length), dependencies: [] };
+  });
+
+  const sampleBatches = Array.isArray(wmoj.sample_batches) && wmoj.sample_batches.length === samples.length
+    ? wmoj.sample_batches.map(Number)
+    : null;
+
+  if (errors.length > 0) {
+    throw new ProblemPackageError(errors);
+  }
+
+  const toTestCase = (test: { name: string; input: string; answer: string }, batch: number | null, isSample: boolean) => ({
+    name: test.name,
+    input: files.get(test.input)!.getData(),
+    output: files.get(test.answer)!.getData(),
+    batch,
+    isSample
+  });
+
+  // Samples sit in the first batch unless the package says otherwise, since every test needs a batch
+  const testCases: ArchiveTestCase[] = [
+    ...samples.sort((a, b) => byName(a.name, b.name)).map((test, index) =>
+      toTestCase(test, batches.length > 0 ? sampleBatches?.[index] ?? 1 : null, true)
+    ),
+    ...Array.from(groups.entries()).flatMap(([group, tests]) =>
+      tests.map(test => toTestCase(test, group === '' ? null : groupNames.indexOf(group) + 1, false))
+    )
+  ];
+
+  return {
+    title: name.trim(),
+    description: readText(statementPath!).trim(),
+    timeLimitMs,
+    memoryLimitMb,
+    checker,
+    batches,
+    testCases: testCases.sort((a, b) =>
+      (a.batch || 0) - (b.batch || 0) ||
+      Number(b.isSample) - Number(a.isSample) ||
+      byName(a.name, b.name)
+    )
+  };
+}
+
+// Short name for a package file, in the lowercase style Kattis uses for problem names
+export function toPackageName(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'problem';
+}
+
+// Write a problem and its test cases, in judging order, as a Kattis problem package
+export function writeProblemPackage(problem: any, testCases: any[]): Buffer {
+  const zip = new AdmZip();
+  const batches: any[] = Array.isArray(problem.batches) ? problem.batches : [];
+  const isCustom = problem.checker === CUSTOM_CHECKER_ID;
+  const checker = isCustom ? CUSTOM_CHECKER_ID : getBuiltinChecker(problem.checker)?.id || 'exact';
+
+  const samples = testCases.filter(tc => tc.is_sample);
+  const folders = new Map<string, any[]>();
+  for (const testCase of testCases.filter(tc => !tc.is_sample)) {
+    const folder = batches.length > 0 ? `data/secret/group${testCase.batch}` : 'data/secret';
+    folders.set(folder, [...(folders.get(folder) || []), testCase]);
+  }
+  folders.set('data/sample', samples);
+
+  const config: Record<string, any> = {
+    name: problem.title,
+    uuid: problem.id,
+    type: batches.length > 0 ? 'scoring' : 'pass-fail',
+    limits: {
+      time_limit: problem.time_limit_ms / 1000,
+      memory: problem.memory_limit_mb
+    },
+    validation: isCustom ? 'custom' : 'default'
+  };
+  if (!isCustom && toValidatorFlags(checker, problem.checker_precision)) {
+    config.validator_flags = toValidatorFlags(checker, problem.checker_precision);
+  }
+  config.wmoj = {
+    checker,
+    ...(problem.checker_precision ? { checker_precision: problem.checker_precision } : {}),
+    ...(isCustom ? { checker_language: problem.checker_language } : {}),
+    ...(batches.length > 0 ? {
+      batches: batches.map(batch => ({ name: batch.name, points: batch.points, dependencies: batch.dependencies })),
+      sample_batches: samples.map(tc => tc.batch)
+    } : {})
+  };
+
+  zip.addFile('problem.yaml', Buffer.from(YAML.stringify(config)));
+  zip.addFile(STATEMENT_PATHS[0], Buffer.from(`${problem.description}\n`));
+
+  for (const [folder, tests] of folders) {
+    const width = Math.max(2, String(tests.length).length);
+    tests.forEach((testCase, index) => {
+      const name = String(index + 1).padStart(width, '0');
+      zip.addFile(`${folder}/${name}.in`, Buffer.isBuffer(testCase.input) ? testCase.input : Buffer.from(testCase.input));
+      zip.addFile(`${folder}/${name}.ans`, Buffer.from(testCase.expected_output));
+    });
+  }
+
+  // Each group is worth its batch's points once all of its tests pass
+  batches.forEach((batch, index) => {
+    zip.addFile(`data/secret/group${index + 1}/testdata.yaml`, Buffer.from(YAML.stringify({
+      accept_score: batch.points,
+      grader_flags: 'min'
+    })));
+  });
+
+  if (isCustom) {
+    const language = getLanguage(problem.checker_language);
+    zip.addFile(`${VALIDATOR_DIR}checker/${language?.sourceFile || 'checker'}`, Buffer.from(problem.checker_source || ''));
+  }
+
+  return zip.toBuffer();
+}
@@ -0,0 +1,51 @@
+import express from 'express';
+
+// In-memory, fixed-window rate limiting for expensive endpoints.
+// Requests are counted per key (usually the signed-in user) and the counts reset every window.
+// Counts live in this process only, which is enough for a single judge server.
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number; // Requests allowed per key in each window
+  message: string;
+  key: (req: express.Request) => string;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export function createRateLimiter(options: RateLimitOptions): express.RequestHandler {
+  const windows = new Map<string, RateLimitWindow>();
+
+  // Forget expired windows so idle users don't accumulate
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }, options.windowMs);
+  cleanup.unref();
+
+  return (req, res, next) => {
+    const key = options.key(req);
+    const now = Date.now();
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+      return res.status(429).json({ success: false, error: options.message });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,64 @@
+import { calculateRatingChanges, INITIAL_RATING, RatedContestant } from './ratings';
+
+const contestants = (ratings: number[], ranks = ratings.map((_, index) => index + 1)): RatedContestant[] => {
+  return ratings.map((rating, index) => ({ userId: `u${index}`, rank: ranks[index], rating }));
+};
+
+const deltas = (list: RatedContestant[]) => calculateRatingChanges(list).map(change => change.newRating - change.oldRating);
+
+test('a contest needs at least two contestants to be rated', () => {
+  expect(calculateRatingChanges([])).toEqual([]);
+  expect(calculateRatingChanges(contestants([INITIAL_RATING]))).toEqual([]);
+});
+
+test('among equally rated contestants the winner gains and the loser drops by as much', () => {
+  const changes = calculateRatingChanges(contestants([INITIAL_RATING, INITIAL_RATING]));
+  const [winner, loser] = changes.map(change => change.newRating - change.oldRating);
+
+  expect(winner).toBeGreaterThan(0);
+  expect(loser).toBeLessThan(0);
+  expect(winner + loser).toBeLessThanOrEqual(0);
+  expect(Math.abs(winner + loser)).toBeLessThanOrEqual(2);
+  expect(changes[0].performance).toBeGreaterThan(changes[1].performance);
+});
+
+test('ratings move further the more surprising the result', () => {
+  const [expectedWinner] = deltas(contestants([1900, 1500]));
+  const [upsetWinner] = deltas(contestants([1500, 1900]));
+  expect(upsetWinner).toBeGreaterThan(expectedWinner);
+  expect(expectedWinner).toBeGreaterThanOrEqual(0);
+});
+
+test('finishing as seeded moves ratings far less than finishing in reverse', () => {
+  const ratings = [2100, 1800, 1500, 1200];
+  const seeded = deltas(contestants(ratings));
+  const reversed = deltas(contestants(ratings, [4, 3, 2, 1]));
+
+  seeded.forEach((delta, index) => expect(Math.abs(delta)).toBeLessThan(Math.abs(reversed[index])));
+  expect(Math.abs(seeded[1])).toBeLessThanOrEqual(10);
+  expect(Math.abs(seeded[2])).toBeLessThanOrEqual(10);
+  expect(reversed[0]).toBeLessThan(0);
+  expect(reversed[3]).toBeGreaterThan(0);
+});
+
+test('ratings do not inflate', () => {
+  const ratings = [1500, 1620, 1380, 1900, 1450, 1700, 1500, 1250, 2000, 1550];
+  const total = deltas(contestants(ratings, [3, 1, 4, 2, 5, 7, 6, 9, 8, 10])).reduce((sum, delta) => sum + delta, 0);
+  expect(total).toBeLessThanOrEqual(ratings.length / 2); // Each delta is rounded on its own
+});
+
+test('tied contestants with the same rating get the same change', () => {
+  const [first, second, third] = deltas(contestants([1500, 1500, 1500], [1, 1, 3]));
+  expect(first).toBe(second);
+  expect(first).toBeGreaterThan(third);
+});
+
+test('changes keep the contestants and ranks they were given', () => {
+  const changes = calculateRatingChanges(contestants([1600, 1400], [2, 1]));
+  expect(changes.map(({ userId, rank, oldRating }) => ({ userId, rank, oldRating }))).toEqual([
+    { userId: 'u0', rank: 2, oldRating: 1600 },
+    { userId: 'u1', rank: 1, oldRating: 1400 }
+  ]);
+  expect(changes[0].newRating).toBeLessThan(1600);
+  expect(changes[1].newRating).toBeGreaterThan(1400);
+});
@@ -0,0 +1,163 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Contest ratings, Codeforces-style.
+//
+// Every contestant has an Elo rating, starting at INITIAL_RATING. From everyone's ratings before a
+// contest, each contestant has an expected rank (their seed): one plus the chance of every other
+// contestant beating them. Their performance is the rating whose seed would have matched their
+// actual rank, taken as the geometric mean of the two, and their rating moves halfway towards it.
+// The changes are then shifted so that ratings don't inflate: they add up to at most zero, and the
+// top-rated contestants don't gain on average.
+
+export const INITIAL_RATING = 1500;
+
+export interface RatedContestant {
+  userId: string;
+  rank: number; // Tied contestants share a rank
+  rating: number; // Before the contest
+}
+
+export interface RatingChange {
+  userId: string;
+  rank: number;
+  performance: number;
+  oldRating: number;
+  newRating: number;
+}
+
+// The chance of a contestant rated a beating one rated b
+const getWinProbability = (a: number, b: number) => 1 / (1 + Math.pow(10, (b - a) / 400));
+
+// The expected rank of a contestant with the given rating against everyone else
+function getSeed(contestants: RatedContestant[], rating: number, exclude: RatedContestant): number {
+  return contestants.reduce((seed, other) => other === exclude ? seed : seed + getWinProbability(other.rating, rating), 1);
+}
+
+// The rating whose seed is the given rank; seeds fall as ratings rise
+function getPerformance(contestants: RatedContestant[], rank: number, contestant: RatedContestant): number {
+  let low = 1;
+  let high = 8000;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (getSeed(contestants, middle, contestant) < rank) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return low;
+}
+
+export function calculateRatingChanges(contestants: RatedContestant[]): RatingChange[] {
+  if (contestants.length < 2) {
+    return []; // Nobody to be compared with
+  }
+
+  const changes = contestants.map(contestant => {
+    const seed = getSeed(contestants, contestant.rating, contestant);
+    const performance = getPerformance(contestants, Math.sqrt(contestant.rank * seed), contestant);
+    return { contestant, performance, delta: (performance - contestant.rating) / 2 };
+  });
+
+  // Ratings shouldn't inflate: the changes add up to slightly less than nothing
+  const total = changes.reduce((sum, change) => sum + change.delta, 0);
+  const correction = -total / changes.length - 1;
+  changes.forEach(change => change.delta += correction);
+
+  // And the top-rated contestants, who have the furthest to fall, don't gain on average
+  const topCount = Math.min(changes.length, 4 * Math.round(Math.sqrt(changes.length)));
+  const top = [...changes].sort((a, b) => b.contestant.rating - a.contestant.rating).slice(0, topCount);
+  const topTotal = top.reduce((sum, change) => sum + change.delta, 0);
+  const topCorrection = Math.min(Math.max(-topTotal / topCount, -10), 0);
+  changes.forEach(change => change.delta += topCorrection);
+
+  return changes.map(({ contestant, performance, delta }) => ({
+    userId: contestant.userId,
+    rank: contestant.rank,
+    performance,
+    oldRating: contestant.rating,
+    newRating: Math.round(contestant.rating + delta)
+  }));
+}
+
+// Each user's rating after their latest rated contest
+export async function getCurrentRatings(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from('rating_changes')
+    .select('user_id, new_rating, created_at')
+    .in('user_id', userIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  // Later changes overwrite earlier ones
+  return new Map(data.map(change => [change.user_id, change.new_rating]));
+}
+
+// Rate a contest from its final standings and mark it finalized. Returns the rating changes, or null
+// when the contest has already been finalized.
+//
+// The contest is claimed first, so that of two requests finalizing it at once only one rates it. If
+// rating it then fails, the claim is released and the contest can be finalized again.
+export async function finalizeRatings(
+  supabase: SupabaseClient,
+  contest: any,
+  standings: { user_id: string; rank: number }[]
+): Promise<RatingChange[] | null> {
+  const finalizedAt = new Date().toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('contests')
+    .update({ ratings_finalized_at: finalizedAt })
+    .eq('id', contest.id)
+    .is('ratings_finalized_at', null)
+    .select('id');
+
+  if (claimError) {
+    throw claimError;
+  }
+  if (claimed.length === 0) {
+    return null;
+  }
+
+  try {
+    const ratings = await getCurrentRatings(supabase, standings.map(entry => entry.user_id));
+    const changes = calculateRatingChanges(standings.map(entry => ({
+      userId: entry.user_id,
+      rank: entry.rank,
+      rating: ratings.get(entry.user_id) ?? INITIAL_RATING
+    })));
+
+    if (changes.length > 0) {
+      const { error } = await supabase
+        .from('rating_changes')
+        .insert(changes.map(change => ({
+          contest_id: contest.id,
+          user_id: change.userId,
+          rank: change.rank,
+          performance: change.performance,
+          old_rating: change.oldRating,
+          new_rating: change.newRating,
+          created_at: finalizedAt
+        })));
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    return changes;
+  } catch (error) {
+    await supabase
+      .from('rating_changes')
+      .delete()
+      .eq('contest_id', contest.id);
+    await supabase
+      .from('contests')
+      .update({ ratings_finalized_at: null })
+      .eq('id', contest.id)
+      .eq('ratings_finalized_at', finalizedAt);
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { Verdict } from './verdicts';
+
+// Admin rejudges, tracked in memory while their submissions go back through the judge queue.
+// Each rejudge remembers every submission's previous verdict and points, so once it finishes
+// the admin can see exactly which results changed. Only the most recent rejudges are kept.
+
+const MAX_TRACKED_REJUDGES = 50;
+
+export type RejudgeScope = 'submission' | 'problem' | 'contest';
+
+export interface RejudgedSubmission {
+  submissionId: string;
+  userId: string;
+  username: string;
+  problemId: string;
+  previousVerdict: Verdict | null;
+  previousPoints: number | null;
+  verdict: Verdict | null; // Null until the submission has been judged again
+  points: number | null;
+  done: boolean;
+}
+
+interface Rejudge {
+  id: string;
+  scope: RejudgeScope;
+  targetId: string;
+  startedAt: string;
+  finishedAt: string | null;
+  skipped: number; // Submissions that could not be rejudged, e.g. still judging, without stored source or of a deleted problem
+  submissions: Map<string, RejudgedSubmission>;
+}
+
+export interface RejudgeSummary {
+  id: string;
+  scope: RejudgeScope;
+  targetId: string;
+  startedAt: string;
+  finishedAt: string | null;
+  total: number;
+  completed: number;
+  skipped: number;
+  changes: RejudgedSubmission[];
+}
+
+const rejudges = new Map<string, Rejudge>();
+
+export function startRejudge(
+  scope: RejudgeScope,
+  targetId: string,
+  submissions: Omit<RejudgedSubmission, 'verdict' | 'points' | 'done'>[],
+  skipped: number
+): string {
+  const id = crypto.randomUUID();
+  rejudges.set(id, {
+    id,
+    scope,
+    targetId,
+    startedAt: new Date().toISOString(),
+    finishedAt: submissions.length === 0 ? new Date().toISOString() : null,
+    skipped,
+    submissions: new Map(submissions.map(submission => [
+      submission.submissionId,
+      { ...submission, verdict: null, points: null, done: false }
+    ]))
+  });
+
+  // Maps iterate in insertion order, so the first key is the oldest rejudge
+  while (rejudges.size > MAX_TRACKED_REJUDGES) {
+    rejudges.delete(rejudges.keys().next().value!);
+  }
+
+  return id;
+}
+
+export function recordRejudgeResult(rejudgeId: string, submissionId: string, verdict: Verdict, points: number | null) {
+  const rejudge = rejudges.get(rejudgeId);
+  const submission = rejudge?.submissions.get(submissionId);
+  if (!rejudge || !submission) {
+    return;
+  }
+
+  submission.verdict = verdict;
+  submission.points = points;
+  submission.done = true;
+
+  if (Array.from(rejudge.submissions.values()).every(s => s.done)) {
+    rejudge.finishedAt = new Date().toISOString();
+  }
+}
+
+export function getRejudgeSummary(rejudgeId: string): RejudgeSummary | null {
+  const rejudge = rejudges.get(rejudgeId);
+  if (!rejudge) {
+    return null;
+  }
+
+  const submissions = Array.from(rejudge.submissions.values());
+  return {
+    id: rejudge.id,
+    scope: rejudge.scope,
+    targetId: rejudge.targetId,
+    startedAt: rejudge.startedAt,
+    finishedAt: rejudge.finishedAt,
+    total: submissions.length,
+    completed: submissions.filter(submission => submission.done).length,
+    skipped: rejudge.skipped,
+    changes: submissions.filter(submission =>
+      submission.done && (submission.verdict !== submission.previousVerdict || submission.points !== submission.previousPoints)
+    )
+  };
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Run without bubblewrap or GNU time, which test machines may not have
+process.env.JUDGE_SANDBOX = 'none';
+process.env.JUDGE_TIME_PATH = '';
+
+const { runInSandbox } = require('./sandbox') as typeof import('./sandbox');
+
+let workDir: string;
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-sandbox-'));
+});
+
+afterEach(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const run = (script: string) => runInSandbox({ command: ['/bin/sh', '-c', script], workDir, timeLimitMs: 5000, memoryLimitMb: 256 });
+
+test('characters split across output chunks are decoded whole', async () => {
+  // The euro sign is three bytes; the first two arrive well before the last
+  const result = await run("printf '\\342\\202'; sleep 0.2; printf '\\254\\n'; { printf '\\342'; sleep 0.2; printf '\\202\\254'; } >&2");
+  expect(result.exitCode).toBe(0);
+  expect(result.stdout).toBe('€\n');
+  expect(result.stderr).toBe('€');
+});
+
+test('output past the limit stops the program', async () => {
+  const result = await runInSandbox({
+    command: ['/bin/sh', '-c', 'while true; do echo 0123456789; done'],
+    workDir,
+    timeLimitMs: 5000,
+    memoryLimitMb: 256,
+    outputLimitBytes: 1024
+  });
+  expect(result.outputLimitExceeded).toBe(true);
+  expect(result.stdout.length).toBeLessThanOrEqual(1024);
+});
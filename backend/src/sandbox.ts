@@ -0,0 +1,239 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Sandboxed execution for judged processes.
+//
+// Every command is wrapped as: time -> prlimit -> bwrap -> command
+//   - GNU time reports CPU time and peak memory of the whole process tree
+//   - prlimit applies rlimits (address space, CPU seconds, file size, process count)
+//   - bubblewrap gives the process fresh namespaces (no network), a read-only system,
+//     a private /tmp and only the submission's working directory mounted at /box
+//
+// JUDGE_SANDBOX=none skips bubblewrap for local development; never use it in production.
+// JUDGE_TIME_PATH= (empty) skips GNU time when it is not installed, leaving only wall time.
+
+const SANDBOX_MODE = process.env.JUDGE_SANDBOX || 'bwrap';
+const TIME_PATH = process.env.JUDGE_TIME_PATH ?? '/usr/bin/time';
+const DEFAULT_MAX_PROCESSES = Number(process.env.JUDGE_MAX_PROCESSES) || 64;
+const DEFAULT_OUTPUT_LIMIT_BYTES = 64 * 1024 * 1024;
+const SANDBOX_PATH = '/usr/local/bin:/usr/bin:/bin';
+const BOX_DIR = '/box';
+
+if (SANDBOX_MODE === 'none') {
+  console.warn('JUDGE_SANDBOX=none: judged code runs WITHOUT isolation. Do not use this in production.');
+}
+
+export interface SandboxOptions {
+  command: string[];
+  workDir: string; // Host directory mounted read-write as the process's working directory
+  stdin?: string | Buffer;
+  timeLimitMs: number; // CPU time limit
+  wallTimeLimitMs?: number; // Defaults to twice the CPU time limit
+  memoryLimitMb: number;
+  addressSpaceOverheadMb?: number; // Extra virtual memory for runtimes that reserve more than they use
+  outputLimitBytes?: number;
+  maxProcesses?: number;
+}
+
+export interface SandboxResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  outputLimitExceeded: boolean;
+  wallTimeMs: number;
+  cpuTimeMs?: number;
+  memoryKb?: number;
+  error?: string; // Set when the sandbox itself failed to start
+}
+
+interface ProcessStats {
+  cpuTimeMs: number;
+  memoryKb: number;
+  signal: string | null;
+}
+
+// Bind a top-level system directory read-only, preserving merged-/usr symlinks
+const systemBind = (dir: string): string[] => {
+  try {
+    const stat = fs.lstatSync(dir);
+    if (stat.isSymbolicLink()) {
+      return ['--symlink', fs.readlinkSync(dir), dir];
+    }
+    return ['--ro-bind', dir, dir];
+  } catch {
+    return [];
+  }
+};
+
+const buildIsolationArgs = (workDir: string): string[] => {
+  if (SANDBOX_MODE === 'none') {
+    return [];
+  }
+
+  const extraBinds = (process.env.JUDGE_SANDBOX_RO_BINDS || '')
+    .split(':')
+    .filter(Boolean)
+    .flatMap(dir => ['--ro-bind-try', dir, dir]);
+
+  return [
+    'bwrap',
+    '--unshare-all',
+    '--die-with-parent',
+    '--new-session',
+    '--ro-bind', '/usr', '/usr',
+    ...systemBind('/bin'),
+    ...systemBind('/lib'),
+    ...systemBind('/lib64'),
+    '--ro-bind-try', '/etc/alternatives', '/etc/alternatives',
+    '--ro-bind-try', '/etc/ld.so.cache', '/etc/ld.so.cache',
+    ...extraBinds,
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+    '--bind', workDir, BOX_DIR,
+    '--chdir', BOX_DIR,
+    '--clearenv',
+    '--setenv', 'PATH', SANDBOX_PATH,
+    '--setenv', 'HOME', BOX_DIR,
+    '--'
+  ];
+};
+
+const buildLimitArgs = (options: SandboxOptions): string[] => {
+  const cpuSeconds = Math.ceil(options.timeLimitMs / 1000);
+  const addressSpaceMb = options.memoryLimitMb + (options.addressSpaceOverheadMb || 0);
+  const outputLimitBytes = options.outputLimitBytes || DEFAULT_OUTPUT_LIMIT_BYTES;
+
+  return [
+    'prlimit',
+    `--as=${addressSpaceMb * 1024 * 1024}`,
+    `--cpu=${cpuSeconds}:${cpuSeconds + 1}`, // SIGXCPU at the soft limit, SIGKILL a second later
+    `--fsize=${outputLimitBytes}`,
+    `--nproc=${options.maxProcesses || DEFAULT_MAX_PROCESSES}`,
+    '--'
+  ];
+};
+
+// GNU time writes "Command terminated by signal N" before the formatted line when the child was killed
+const readProcessStats = (statsPath: string): ProcessStats | null => {
+  try {
+    const lines = fs.readFileSync(statsPath, 'utf8').trim().split('\n');
+    const [user, system, maxRss] = lines[lines.length - 1].trim().split(/\s+/).map(Number);
+    if ([user, system, maxRss].some(Number.isNaN)) {
+      return null;
+    }
+
+    const signalMatch = lines.join('\n').match(/terminated by signal (\d+)/);
+    return {
+      cpuTimeMs: Math.round((user + system) * 1000),
+      memoryKb: maxRss,
+      signal: signalMatch ? signalName(Number(signalMatch[1])) : null
+    };
+  } catch {
+    return null;
+  }
+};
+
+const signalName = (signal: number): string => {
+  const entry = Object.entries(os.constants.signals).find(([, value]) => value === signal);
+  return entry ? entry[0] : `signal ${signal}`;
+};
+
+export async function runInSandbox(options: SandboxOptions): Promise<SandboxResult> {
+  // Stats live next to the working directory so the sandboxed process cannot tamper with them
+  const statsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-stats-'));
+  const statsPath = path.join(statsDir, 'stats');
+  const timeArgs = TIME_PATH ? [TIME_PATH, '-f', '%U %S %M', '-o', statsPath] : [];
+  const [command, ...args] = [
+    ...timeArgs,
+    ...buildLimitArgs(options),
+    ...buildIsolationArgs(options.workDir),
+    ...options.command
+  ];
+  const outputLimitBytes = options.outputLimitBytes || DEFAULT_OUTPUT_LIMIT_BYTES;
+  const wallTimeLimitMs = options.wallTimeLimitMs || options.timeLimitMs * 2;
+
+  return new Promise((resolve) => {
+    const startTime = process.hrtime.bigint();
+    // Output is decoded once it is complete, so characters split across chunks stay whole
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let outputLimitExceeded = false;
+    let settled = false;
+
+    const child = spawn(command, args, {
+      cwd: options.workDir,
+      env: { PATH: SANDBOX_PATH, HOME: options.workDir },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true // Own process group, so the whole tree can be killed at once
+    });
+
+    const killTree = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+
+    const wallTimer = setTimeout(() => {
+      timedOut = true;
+      killTree();
+    }, wallTimeLimitMs);
+
+    const collect = (chunks: Buffer[]) => (data: Buffer) => {
+      outputBytes += data.length;
+      if (outputBytes > outputLimitBytes) {
+        outputLimitExceeded = true;
+        killTree();
+        return;
+      }
+      chunks.push(data);
+    };
+
+    child.stdout.on('data', collect(stdout));
+    child.stderr.on('data', collect(stderr));
+
+    const finish = (result: Omit<SandboxResult, 'stdout' | 'stderr' | 'timedOut' | 'outputLimitExceeded' | 'wallTimeMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(wallTimer);
+
+      const stats = readProcessStats(statsPath);
+      fs.rmSync(statsDir, { recursive: true, force: true });
+
+      resolve({
+        stdout: Buffer.concat(stdout).toString(),
+        stderr: Buffer.concat(stderr).toString(),
+        timedOut,
+        outputLimitExceeded,
+        wallTimeMs: Number((process.hrtime.bigint() - startTime) / BigInt(1000000)),
+        ...result,
+        signal: result.signal || stats?.signal || null,
+        cpuTimeMs: stats?.cpuTimeMs,
+        memoryKb: stats?.memoryKb
+      });
+    };
+
+    child.on('close', (code, signal) => {
+      // bubblewrap reports a killed child as exit status 128 + signal
+      const sandboxSignal = SANDBOX_MODE !== 'none' && code !== null && code > 128 ? signalName(code - 128) : null;
+      finish({ exitCode: code, signal: signal || sandboxSignal });
+    });
+
+    child.on('error', (error) => {
+      console.error('Sandbox process error:', error);
+      finish({ exitCode: null, signal: null, error: error.message });
+    });
+
+    // The program may exit without reading all of its input
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.stdin || '');
+  });
+}
@@ -0,0 +1,70 @@
+import { orderTestCases, parseBatches, scoreSubmission, shouldSkipTest } from './scoring';
+
+const problem = {
+  batches: [
+    { name: 'Small', points: 20, dependencies: [] },
+    { name: 'Medium', points: 30, dependencies: [1] },
+    { name: 'Large', points: 50, dependencies: [1, 2] }
+  ]
+};
+
+test('problems without batches earn one point per test case score', () => {
+  const { points, batchResults } = scoreSubmission({}, [
+    { passed: true, score: 1 },
+    { passed: false, score: 0.5 },
+    { passed: false, score: 0 }
+  ]);
+  expect(points).toBe(1.5);
+  expect(batchResults).toEqual([]);
+});
+
+test('a batch earns its points times the lowest score of its test cases', () => {
+  const { points, batchResults } = scoreSubmission(problem, [
+    { batch: 1, passed: true, score: 1 },
+    { batch: 1, passed: true, score: 1 },
+    { batch: 2, passed: true, score: 1 },
+    { batch: 2, passed: false, score: 0.5 },
+    { batch: 3, passed: true, score: 1 }
+  ]);
+  expect(batchResults.map(result => result.earned)).toEqual([20, 15, 0]);
+  expect(batchResults.map(result => result.passed)).toEqual([true, false, false]);
+  expect(points).toBe(35);
+});
+
+test('a batch earns nothing unless the batches it depends on earned full points', () => {
+  const { points, batchResults } = scoreSubmission(problem, [
+    { batch: 1, passed: false, score: 0 },
+    { batch: 2, passed: true, score: 1 },
+    { batch: 3, passed: true, score: 1 }
+  ]);
+  expect(batchResults.map(result => result.earned)).toEqual([0, 0, 0]);
+  expect(points).toBe(0);
+});
+
+test('tests are skipped once their batch scored zero or a dependency failed', () => {
+  const results = [{ batch: 1, passed: true, score: 1 }, { batch: 2, passed: false, score: 0 }];
+  expect(shouldSkipTest(problem, 1, results)).toBe(false);
+  expect(shouldSkipTest(problem, 2, results)).toBe(true);
+  expect(shouldSkipTest(problem, 3, results)).toBe(true);
+  expect(shouldSkipTest(problem, 2, [{ batch: 2, passed: false, score: 0.5 }])).toBe(false);
+  expect(shouldSkipTest({}, 1, [{ batch: 1, passed: false, score: 0 }])).toBe(false);
+});
+
+test('test cases are judged by batch, keeping their order within a batch', () => {
+  const testCases = [{ id: 'a', batch: 2 }, { id: 'b', batch: 1 }, { id: 'c', batch: 2 }, { id: 'd', batch: 1 }];
+  expect(orderTestCases(problem, testCases).map(testCase => testCase.id)).toEqual(['b', 'd', 'a', 'c']);
+  expect(orderTestCases({}, testCases)).toBe(testCases);
+});
+
+test('batch definitions are validated against the test case assignments', () => {
+  expect(parseBatches(undefined, [null, ''])).toEqual([]);
+  expect(parseBatches([], [1])).toBe('Test cases can only be assigned to batches that exist');
+  expect(parseBatches([{ points: 0 }], [1])).toBe('Batch 1 must be worth a positive number of points');
+  expect(parseBatches([{ points: 10, dependencies: [1] }], [1])).toBe('Batch 1 can only depend on earlier batches');
+  expect(parseBatches([{ points: 10 }, { points: 10 }], [1, 1])).toBe('Batch 2 has no test cases');
+  expect(parseBatches([{ points: 10 }], [1, 2])).toBe('Every test case must belong to a batch when the problem has batches');
+  expect(parseBatches([{ name: ' Easy ', points: '10' }, { points: 5.5, dependencies: ['1', 1] }], [1, 2])).toEqual([
+    { name: 'Easy', points: 10, dependencies: [] },
+    { name: 'Batch 2', points: 5.5, dependencies: [1] }
+  ]);
+});
@@ -0,0 +1,149 @@
+// Batch (subtask) scoring, IOI/CCC style.
+//
+// A problem may group its test cases into batches, numbered from 1 in the order they are defined.
+// A batch is worth a number of points and earns them only if every test case in it passes; with
+// partial-credit checkers it earns its points times the lowest score of its test cases. A batch can
+// depend on earlier batches, in which case it earns nothing unless all of them earned full points.
+// Problems without batches are worth one point per test case.
+
+export interface Batch {
+  name: string;
+  points: number;
+  dependencies: number[]; // Numbers of earlier batches that must be fully solved
+}
+
+export interface BatchResult {
+  batch: number;
+  name: string;
+  points: number;
+  earned: number;
+  passed: boolean;
+}
+
+interface ScoredTest {
+  batch?: number | null;
+  passed: boolean;
+  score?: number;
+}
+
+const roundPoints = (points: number) => Math.round(points * 1000) / 1000;
+
+// Validate an admin's batch definitions and test case assignments; returns an error message when invalid
+export function parseBatches(batches: any, testCaseBatches: any[]): Batch[] | string {
+  if (batches === undefined || batches === null || (Array.isArray(batches) && batches.length === 0)) {
+    if (testCaseBatches.some(batch => batch !== undefined && batch !== null && batch !== '')) {
+      return 'Test cases can only be assigned to batches that exist';
+    }
+    return [];
+  }
+
+  if (!Array.isArray(batches)) {
+    return 'Batches must be a list';
+  }
+
+  const parsed: Batch[] = [];
+  for (const [index, batch] of batches.entries()) {
+    const number = index + 1;
+    const points = Number(batch?.points);
+    if (!Number.isFinite(points) || points <= 0) {
+      return `Batch ${number} must be worth a positive number of points`;
+    }
+
+    const dependencies = Array.isArray(batch.dependencies) ? batch.dependencies.map(Number) : [];
+    if (dependencies.some((dependency: number) => !Number.isInteger(dependency) || dependency < 1 || dependency >= number)) {
+      return `Batch ${number} can only depend on earlier batches`;
+    }
+
+    parsed.push({
+      name: typeof batch.name === 'string' && batch.name.trim() ? batch.name.trim() : `Batch ${number}`,
+      points: roundPoints(points),
+      dependencies: Array.from(new Set<number>(dependencies)).sort((a, b) => a - b)
+    });
+  }
+
+  const counts = new Array(parsed.length).fill(0);
+  for (const batch of testCaseBatches) {
+    const number = Number(batch);
+    if (!Number.isInteger(number) || number < 1 || number > parsed.length) {
+      return 'Every test case must belong to a batch when the problem has batches';
+    }
+    counts[number - 1]++;
+  }
+
+  const emptyBatch = counts.findIndex(count => count === 0);
+  if (emptyBatch !== -1) {
+    return `Batch ${emptyBatch + 1} has no test cases`;
+  }
+
+  return parsed;
+}
+
+export const getProblemBatches = (problem: any): Batch[] => {
+  return Array.isArray(problem.batches) ? problem.batches : [];
+};
+
+// Points a full solve of the problem is worth
+export function getTotalPoints(problem: any, testCaseCount: number): number {
+  const batches = getProblemBatches(problem);
+  if (batches.length === 0) {
+    return testCaseCount;
+  }
+  return roundPoints(batches.reduce((total, batch) => total + batch.points, 0));
+}
+
+// Test cases in the order they are judged: by batch, keeping their order within a batch
+export function orderTestCases<T extends { batch?: number | null }>(problem: any, testCases: T[]): T[] {
+  if (getProblemBatches(problem).length === 0) {
+    return testCases;
+  }
+  return testCases
+    .map((testCase, index) => ({ testCase, index }))
+    .sort((a, b) => (a.testCase.batch || 0) - (b.testCase.batch || 0) || a.index - b.index)
+    .map(({ testCase }) => testCase);
+}
+
+// Whether a test can be skipped: its batch already scored zero, or a batch it depends on wasn't fully solved
+export function shouldSkipTest(problem: any, batch: number | null | undefined, results: ScoredTest[]): boolean {
+  const batches = getProblemBatches(problem);
+  if (!batch || batches.length === 0) {
+    return false;
+  }
+
+  const batchZeroed = results.some(result => result.batch === batch && !result.passed && !result.score);
+  const dependencyFailed = batches[batch - 1].dependencies.some(dependency =>
+    results.some(result => result.batch === dependency && !result.passed)
+  );
+  return batchZeroed || dependencyFailed;
+}
+
+export function scoreSubmission(problem: any, results: ScoredTest[]): { points: number; batchResults: BatchResult[] } {
+  const batches = getProblemBatches(problem);
+  if (batches.length === 0) {
+    return {
+      points: roundPoints(results.reduce((total, result) => total + (result.score || 0), 0)),
+      batchResults: []
+    };
+  }
+
+  const batchResults: BatchResult[] = [];
+  for (const [index, batch] of batches.entries()) {
+    const number = index + 1;
+    const batchTests = results.filter(result => result.batch === number);
+    const lowestScore = batchTests.length === 0 ? 0 : Math.min(...batchTests.map(result => result.score || 0));
+    const dependenciesPassed = batch.dependencies.every(dependency => batchResults[dependency - 1]?.passed);
+    const earned = dependenciesPassed ? roundPoints(batch.points * lowestScore) : 0;
+
+    batchResults.push({
+      batch: number,
+      name: batch.name,
+      points: batch.points,
+      earned,
+      passed: earned === batch.points
+    });
+  }
+
+  return {
+    points: roundPoints(batchResults.reduce((total, result) => total + result.earned, 0)),
+    batchResults
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  compareIcpcTotals,
+  getContestMinutes,
+  getFreezeTime,
+  getIcpcProblemResult,
+  getIcpcTotals,
+  isBoardFrozen,
+  StandingsSubmission
+} from './standings';
+
+const START = '2026-01-01T10:00:00.000Z';
+
+const submission = (verdict: StandingsSubmission['verdict'], minutes: number, status = 'DONE'): StandingsSubmission => ({
+  problem_id: 'p',
+  verdict,
+  status,
+  created_at: new Date(new Date(START).getTime() + minutes * 60000).toISOString()
+});
+
+test('contest minutes are whole minutes from the start', () => {
+  expect(getContestMinutes(START, '2026-01-01T10:59:59.999Z')).toBe(59);
+  expect(getContestMinutes(START, '2026-01-01T09:00:00.000Z')).toBe(0);
+});
+
+test('a problem counts the attempts up to its first accepted submission', () => {
+  const result = getIcpcProblemResult('p', [
+    submission('WA', 5),
+    submission('CE', 6),
+    submission('TLE', 10),
+    submission('AC', 42),
+    submission('WA', 50),
+    submission(null, 55, 'QUEUED')
+  ], START);
+
+  expect(result).toEqual({
+    problem_id: 'p',
+    solved: true,
+    attempts: 3,
+    solve_minutes: 42,
+    solved_at: submission('AC', 42).created_at,
+    pending: 0
+  });
+});
+
+test('an unsolved problem counts its rejected and pending submissions', () => {
+  const result = getIcpcProblemResult('p', [submission('WA', 5), submission('IE', 6), submission(null, 7, 'JUDGING')], START);
+  expect(result).toMatchObject({ solved: false, attempts: 1, solve_minutes: null, pending: 1 });
+});
+
+test('penalty is the solve time plus 20 minutes per rejected attempt on solved problems only', () => {
+  const totals = getIcpcTotals([
+    getIcpcProblemResult('a', [submission('WA', 5), submission('AC', 42)], START),
+    getIcpcProblemResult('b', [submission('AC', 15)], START),
+    getIcpcProblemResult('c', [submission('WA', 20), submission('WA', 30)], START)
+  ]);
+  expect(totals).toEqual({ problems_solved: 2, penalty: 42 + 20 + 15, last_solve_minutes: 42 });
+  expect(getIcpcTotals([])).toEqual({ problems_solved: 0, penalty: 0, last_solve_minutes: 0 });
+});
+
+test('more problems rank first, then less penalty, then the earlier last solve', () => {
+  const more = { problems_solved: 3, penalty: 300, last_solve_minutes: 200 };
+  const faster = { problems_solved: 2, penalty: 100, last_solve_minutes: 90 };
+  const earlier = { problems_solved: 2, penalty: 150, last_solve_minutes: 60 };
+  const later = { problems_solved: 2, penalty: 150, last_solve_minutes: 100 };
+
+  expect([later, earlier, faster, more].sort(compareIcpcTotals)).toEqual([more, faster, earlier, later]);
+  expect(compareIcpcTotals(later, { ...later })).toBe(0);
+});
+
+test('the board freezes for the last freeze_minutes until it is unfrozen', () => {
+  const contest = { end_time: '2026-01-01T13:00:00.000Z', freeze_minutes: 60, freeze_reveals: null, unfrozen_at: null };
+  const freezeTime = new Date('2026-01-01T12:00:00.000Z').getTime();
+
+  expect(getFreezeTime(contest)?.getTime()).toBe(freezeTime);
+  expect(isBoardFrozen(contest, freezeTime - 1)).toBe(false);
+  expect(isBoardFrozen(contest, freezeTime)).toBe(true);
+  expect(isBoardFrozen(contest, freezeTime + 24 * 60 * 60000)).toBe(true);
+  expect(isBoardFrozen({ ...contest, unfrozen_at: '2026-01-01T14:00:00.000Z' }, freezeTime)).toBe(false);
+});
+
+test('contests without an end or a freeze length never freeze', () => {
+  expect(getFreezeTime({ end_time: null, freeze_minutes: 60, freeze_reveals: null, unfrozen_at: null })).toBeNull();
+  expect(isBoardFrozen({ end_time: '2026-01-01T13:00:00.000Z', freeze_minutes: null, freeze_reveals: null, unfrozen_at: null })).toBe(false);
+});
@@ -0,0 +1,115 @@
+import { Verdict } from './verdicts';
+
+// Contest standings.
+//
+// Points contests rank by total score. ICPC contests rank by problems solved, then by penalty time:
+// for every solved problem, the minutes from the start to the first accepted submission plus a fixed
+// penalty for each rejected submission before it. Compile errors and internal errors cost nothing,
+// and submissions after the first accepted one don't count. In windowed contests the clock starts
+// when the participant starts their window.
+
+export type ScoringMode = 'points' | 'icpc';
+
+export const SCORING_MODES: ScoringMode[] = ['points', 'icpc'];
+export const DEFAULT_SCORING_MODE: ScoringMode = 'points';
+export const ICPC_PENALTY_MINUTES = 20;
+
+const FREE_VERDICTS: Verdict[] = ['CE', 'IE'];
+
+export interface StandingsSubmission {
+  problem_id: string;
+  verdict: Verdict | null;
+  status: string;
+  created_at: string;
+}
+
+export interface IcpcProblemResult {
+  problem_id: string;
+  solved: boolean;
+  attempts: number; // Counted submissions, including the accepted one
+  solve_minutes: number | null; // Minutes from the start to the first accepted submission
+  solved_at: string | null; // When the first accepted submission was made
+  pending: number; // Submissions still being judged, which may change the result
+}
+
+export interface IcpcTotals {
+  problems_solved: number;
+  penalty: number;
+  last_solve_minutes: number;
+}
+
+// Whole minutes from a participant's start to a moment in the contest
+export function getContestMinutes(startTime: string, time: string): number {
+  return Math.max(0, Math.floor((new Date(time).getTime() - new Date(startTime).getTime()) / 60000));
+}
+
+// ICPC result of one user on one problem, from their submissions to it in the order they were made
+export function getIcpcProblemResult(problemId: string, submissions: StandingsSubmission[], startTime: string): IcpcProblemResult {
+  const result: IcpcProblemResult = {
+    problem_id: problemId,
+    solved: false,
+    attempts: 0,
+    solve_minutes: null,
+    solved_at: null,
+    pending: 0
+  };
+
+  for (const submission of submissions) {
+    if (submission.status !== 'DONE') {
+      result.pending++;
+      continue;
+    }
+    if (!submission.verdict || FREE_VERDICTS.includes(submission.verdict)) {
+      continue;
+    }
+
+    result.attempts++;
+    if (submission.verdict === 'AC') {
+      result.solved = true;
+      result.solve_minutes = getContestMinutes(startTime, submission.created_at);
+      result.solved_at = submission.created_at;
+      break; // Later submissions, even ones still judging, can't change the result
+    }
+  }
+
+  return result;
+}
+
+export function getIcpcTotals(results: IcpcProblemResult[]): IcpcTotals {
+  const solved = results.filter(result => result.solved);
+  return {
+    problems_solved: solved.length,
+    penalty: solved.reduce((total, result) => total + result.solve_minutes! + (result.attempts - 1) * ICPC_PENALTY_MINUTES, 0),
+    last_solve_minutes: Math.max(0, ...solved.map(result => result.solve_minutes!))
+  };
+}
+
+// More problems first, then less penalty, then whoever reached their score earlier
+export function compareIcpcTotals(a: IcpcTotals, b: IcpcTotals): number {
+  return b.problems_solved - a.problems_solved || a.penalty - b.penalty || a.last_solve_minutes - b.last_solve_minutes;
+}
+
+// Scoreboard freeze. For the last freeze_minutes of a contest, the board stops showing results of
+// submissions made after the freeze time, except to the participant who made them. After the contest,
+// an admin reveals the hidden results one participant and problem at a time until the board is unfrozen.
+
+export interface FreezeSettings {
+  end_time: string | null;
+  freeze_minutes: number | null;
+  freeze_reveals: string[] | null; // Reveal keys of the results already revealed
+  unfrozen_at: string | null;
+}
+
+export function getFreezeTime(contest: FreezeSettings): Date | null {
+  if (!contest.freeze_minutes || !contest.end_time) {
+    return null;
+  }
+  return new Date(new Date(contest.end_time).getTime() - contest.freeze_minutes * 60 * 1000);
+}
+
+export function isBoardFrozen(contest: FreezeSettings, now = Date.now()): boolean {
+  const freezeTime = getFreezeTime(contest);
+  return freezeTime !== null && now >= freezeTime.getTime() && !contest.unfrozen_at;
+}
+
+export const getRevealKey = (userId: string, problemId: string) => `${userId}:${problemId}`;
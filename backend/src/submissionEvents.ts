@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+
+// Live judging progress, published by the judge workers and relayed to clients over Server-Sent Events.
+// Events only exist in memory: clients that connect late get a snapshot from the database first.
+
+export type SubmissionEvent =
+  | { type: 'status'; status: string }
+  | { type: 'test-start'; index: number; testCaseId: string }
+  | { type: 'test-result'; index: number; result: any }
+  | { type: 'done'; submission: Record<string, any> };
+
+const emitter = new EventEmitter();
+// One listener per open stream, so the default warning threshold of 10 is too low
+emitter.setMaxListeners(0);
+
+export const publishSubmissionEvent = (submissionId: string, event: SubmissionEvent) => {
+  emitter.emit(submissionId, event);
+};
+
+// Returns a function that removes the listener again
+export const subscribeToSubmission = (submissionId: string, listener: (event: SubmissionEvent) => void) => {
+  emitter.on(submissionId, listener);
+  return () => {
+    emitter.off(submissionId, listener);
+  };
+};
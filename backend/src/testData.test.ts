@@ -0,0 +1,107 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadTestCase, readTestArchive, removeTestFiles, storeTestCases, TestArchiveError } from './testData';
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wmoj-test-archive-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const writeArchive = (files: Record<string, string | Buffer>) => {
+  const zip = new AdmZip();
+  for (const [name, data] of Object.entries(files)) {
+    zip.addFile(name, Buffer.isBuffer(data) ? data : Buffer.from(data));
+  }
+  const archivePath = path.join(tempDir, 'tests.zip');
+  zip.writeZip(archivePath);
+  return archivePath;
+};
+
+test('test files are paired and ordered by batch, samples first, then by name', () => {
+  const testCases = readTestArchive(writeArchive({
+    '2/1.in': 'b', '2/1.out': 'B',
+    '1/10.in': 'x', '1/10.ans': 'X',
+    '1/2.in': 'y', '1/2.out': 'Y',
+    '1/sample1.in': 's', '1/sample1.out': 'S',
+    '__MACOSX/1/._2.in': 'ignored',
+    '1/.DS_Store': 'ignored'
+  }));
+
+  expect(testCases.map(({ name, batch, isSample }) => ({ name, batch, isSample }))).toEqual([
+    { name: '1/sample1', batch: 1, isSample: true },
+    { name: '1/2', batch: 1, isSample: false },
+    { name: '1/10', batch: 1, isSample: false },
+    { name: '2/1', batch: 2, isSample: false }
+  ]);
+  expect(testCases[2].output.toString()).toBe('X');
+});
+
+test('test files are kept byte for byte', () => {
+  const input = Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0x20]);
+  const [testCase] = readTestArchive(writeArchive({ '1.in': input, '1.out': ' 42\r\n\n' }));
+  expect(testCase.input.equals(input)).toBe(true);
+  expect(testCase.output.toString()).toBe(' 42\r\n\n');
+  expect(testCase.batch).toBeNull();
+});
+
+test('archives with unpaired, unexpected or non-UTF-8 files are rejected', () => {
+  expect(() => readTestArchive(writeArchive({ '1.in': '1' }))).toThrow('1 needs both an input (.in) and an answer (.out or .ans) file');
+  expect(() => readTestArchive(writeArchive({ '1.in': '1', '1.out': '1', '1.ans': '1' }))).toThrow('1 has more than one answer file');
+  expect(() => readTestArchive(writeArchive({ '1.in': '1', '1.txt': '1' }))).toThrow(TestArchiveError);
+  expect(() => readTestArchive(writeArchive({ '1.in': '1', '1.out': Buffer.from([0xff, 0xfe]) }))).toThrow('1.out is not UTF-8 text');
+});
+
+test('files that are not zip archives are rejected', () => {
+  const archivePath = path.join(tempDir, 'tests.zip');
+  fs.writeFileSync(archivePath, 'not a zip');
+  expect(() => readTestArchive(archivePath)).toThrow('The file is not a valid zip archive');
+});
+
+test('stored test files are removed again when an upload fails', async () => {
+  const uploaded: string[] = [];
+  const removed: string[] = [];
+  const bucket = {
+    upload: async (objectPath: string) => {
+      if (uploaded.length === 3) {
+        return { error: new Error('Storage is unavailable') };
+      }
+      uploaded.push(objectPath);
+      return { error: null };
+    },
+    remove: async (objectPaths: string[]) => {
+      removed.push(...objectPaths);
+      return { error: null };
+    }
+  };
+  const supabase: any = { storage: { from: () => bucket } };
+  const testCase = { name: '1', input: Buffer.from('1'), output: Buffer.from('1'), batch: null, isSample: false };
+
+  await expect(storeTestCases(supabase, 'problem', [testCase, testCase])).rejects.toThrow('Storage is unavailable');
+  expect(removed).toEqual(uploaded);
+});
+
+test('test cases stored as files are loaded as raw bytes', async () => {
+  const folder = path.basename(tempDir);
+  const files: Record<string, Buffer> = { [`${folder}/in`]: Buffer.from([0x00, 0xff]), [`${folder}/out`]: Buffer.from('42\r\n') };
+  const bucket = {
+    download: async (objectPath: string) => ({ data: new Blob([files[objectPath]]), error: null }),
+    remove: async () => ({ error: null })
+  };
+  const supabase: any = { storage: { from: () => bucket } };
+
+  const testCase = await loadTestCase(supabase, { id: 't', input_path: `${folder}/in`, output_path: `${folder}/out` });
+  await removeTestFiles(supabase, Object.keys(files));
+  expect(testCase.id).toBe('t');
+  expect(testCase.input.equals(files[`${folder}/in`])).toBe(true);
+  expect(testCase.expected_output.equals(files[`${folder}/out`])).toBe(true);
+
+  const manual = { id: 'm', input: '1', expected_output: '1', input_path: null };
+  expect(await loadTestCase(supabase, manual)).toBe(manual);
+});
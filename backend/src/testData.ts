@@ -0,0 +1,213 @@
+import AdmZip from 'adm-zip';
+import { isUtf8 } from 'buffer';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Test data kept in Supabase Storage instead of the test_cases table.
+//
+// Bulk uploads arrive as a zip of input/answer pairs: 1.in with 1.out (or 1.ans), 2.in with 2.out, ...
+// Pairs inside a folder named by a number belong to that batch (2/1.in), and pairs whose name starts
+// with "sample" are samples. Answer files must be UTF-8 text, since built-in checkers compare text.
+// Every file is stored byte for byte under the problem's folder in the TEST_DATA_BUCKET bucket, and
+// its test case row only keeps the object path. Object paths never change, so judges cache
+// downloaded files on local disk.
+
+const TEST_DATA_BUCKET = process.env.TEST_DATA_BUCKET || 'test-data';
+const CACHE_DIR = path.join(os.tmpdir(), 'wmoj-test-data');
+export const MAX_TEST_FILE_BYTES = 64 * 1024 * 1024;
+export const MAX_TEST_DATA_BYTES = 512 * 1024 * 1024; // Uncompressed size of all files together
+const INPUT_EXTENSION = '.in';
+const ANSWER_EXTENSIONS = ['.out', '.ans'];
+
+export class TestArchiveError extends Error {}
+
+export interface ArchiveTestCase {
+  name: string;
+  input: Buffer;
+  output: Buffer;
+  batch: number | null;
+  isSample: boolean;
+}
+
+const isIgnoredEntry = (entryName: string) => {
+  return entryName.startsWith('__MACOSX/') || path.posix.basename(entryName).startsWith('.');
+};
+
+// Read and pair the test files in a zip, ordered by batch, samples first, then by name (2.in before 10.in)
+export function readTestArchive(archivePath: string): ArchiveTestCase[] {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(archivePath);
+  } catch {
+    throw new TestArchiveError('The file is not a valid zip archive');
+  }
+
+  const pairs = new Map<string, { input?: AdmZip.IZipEntry; output?: AdmZip.IZipEntry }>();
+  let totalBytes = 0;
+
+  for (const entry of zip.getEntries()) {
+    if (entry.isDirectory || isIgnoredEntry(entry.entryName)) {
+      continue;
+    }
+
+    const extension = path.posix.extname(entry.entryName).toLowerCase();
+    const name = entry.entryName.slice(0, -extension.length || undefined);
+    if (extension !== INPUT_EXTENSION && !ANSWER_EXTENSIONS.includes(extension)) {
+      throw new TestArchiveError(`Unexpected file ${entry.entryName}: test files must end in .in, .out or .ans`);
+    }
+
+    if (entry.header.size > MAX_TEST_FILE_BYTES) {
+      throw new TestArchiveError(`${entry.entryName} is larger than ${MAX_TEST_FILE_BYTES / 1024 / 1024} MB`);
+    }
+    totalBytes += entry.header.size;
+    if (totalBytes > MAX_TEST_DATA_BYTES) {
+      throw new TestArchiveError(`Test data can be at most ${MAX_TEST_DATA_BYTES / 1024 / 1024} MB uncompressed`);
+    }
+
+    const pair = pairs.get(name) || {};
+    if (extension === INPUT_EXTENSION) {
+      pair.input = entry;
+    } else if (pair.output) {
+      throw new TestArchiveError(`${name} has more than one answer file`);
+    } else {
+      pair.output = entry;
+    }
+    pairs.set(name, pair);
+  }
+
+  const testCases: ArchiveTestCase[] = [];
+  for (const [name, pair] of pairs) {
+    if (!pair.input || !pair.output) {
+      throw new TestArchiveError(`${name} needs both an input (.in) and an answer (.out or .ans) file`);
+    }
+
+    const output = pair.output.getData();
+    if (!isUtf8(output)) {
+      throw new TestArchiveError(`${pair.output.entryName} is not UTF-8 text`);
+    }
+
+    const folder = path.posix.basename(path.posix.dirname(name));
+    testCases.push({
+      name,
+      input: pair.input.getData(),
+      output,
+      batch: /^\d+$/.test(folder) ? Number(folder) : null,
+      isSample: path.posix.basename(name).toLowerCase().startsWith('sample')
+    });
+  }
+
+  return testCases.sort((a, b) =>
+    (a.batch || 0) - (b.batch || 0) ||
+    Number(b.isSample) - Number(a.isSample) ||
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+}
+
+const getCachePath = (objectPath: string) => path.join(CACHE_DIR, objectPath);
+
+const writeCache = (objectPath: string, data: Buffer) => {
+  const cachePath = getCachePath(objectPath);
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  // Write then rename, so a judge never reads a half-written file
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, cachePath);
+};
+
+// Store one test file for a problem; returns its object path
+export async function storeTestFile(supabase: SupabaseClient, problemId: string, data: Buffer): Promise<string> {
+  const objectPath = `${problemId}/${crypto.randomUUID()}`;
+  const { error } = await supabase.storage
+    .from(TEST_DATA_BUCKET)
+    .upload(objectPath, data, { contentType: 'application/octet-stream' });
+
+  if (error) {
+    throw error;
+  }
+
+  writeCache(objectPath, data);
+  return objectPath;
+}
+
+// Store the files of uploaded test cases and build their test case rows. If any file fails to upload,
+// the ones already stored are removed again, so nothing is left behind in the bucket.
+export async function storeTestCases(supabase: SupabaseClient, problemId: string, testCases: ArchiveTestCase[]) {
+  const storedPaths: string[] = [];
+  const store = async (data: Buffer) => {
+    const objectPath = await storeTestFile(supabase, problemId, data);
+    storedPaths.push(objectPath);
+    return objectPath;
+  };
+
+  try {
+    const rows = [];
+    for (const [index, testCase] of testCases.entries()) {
+      rows.push({
+        problem_id: problemId,
+        input: null,
+        expected_output: null,
+        input_path: await store(testCase.input),
+        output_path: await store(testCase.output),
+        batch: testCase.batch,
+        is_sample: testCase.isSample,
+        position: index
+      });
+    }
+    return rows;
+  } catch (error) {
+    await removeTestFiles(supabase, storedPaths);
+    throw error;
+  }
+}
+
+export async function loadTestFile(supabase: SupabaseClient, objectPath: string): Promise<Buffer> {
+  const cachePath = getCachePath(objectPath);
+  if (fs.existsSync(cachePath)) {
+    return fs.readFileSync(cachePath);
+  }
+
+  const { data, error } = await supabase.storage.from(TEST_DATA_BUCKET).download(objectPath);
+  if (error || !data) {
+    throw error || new Error(`Test file ${objectPath} is missing`);
+  }
+
+  const buffer = Buffer.from(await data.arrayBuffer());
+  writeCache(objectPath, buffer);
+  return buffer;
+}
+
+// Fill in the data of a test case stored as files. Both stay raw bytes: the input for the program's
+// stdin, the expected output for custom checkers, which get it unchanged.
+export async function loadTestCase(supabase: SupabaseClient, testCase: any): Promise<any> {
+  if (!testCase.input_path) {
+    return testCase;
+  }
+
+  const [input, output] = await Promise.all([
+    loadTestFile(supabase, testCase.input_path),
+    loadTestFile(supabase, testCase.output_path)
+  ]);
+  return { ...testCase, input, expected_output: output };
+}
+
+// Fill in the data of several test cases at once; the judge loads one test case at a time instead
+export async function loadTestCaseData(supabase: SupabaseClient, testCases: any[]): Promise<any[]> {
+  return Promise.all(testCases.map(testCase => loadTestCase(supabase, testCase)));
+}
+
+export async function removeTestFiles(supabase: SupabaseClient, objectPaths: string[]) {
+  if (objectPaths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.storage.from(TEST_DATA_BUCKET).remove(objectPaths);
+  if (error) {
+    console.error('Error removing test files:', error);
+  }
+  for (const objectPath of objectPaths) {
+    fs.rmSync(getCachePath(objectPath), { force: true });
+  }
+}
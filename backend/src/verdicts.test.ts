@@ -0,0 +1,21 @@
+import { getSubmissionVerdict, isVerdict } from './verdicts';
+
+test('a submission takes the verdict of its first failing test case', () => {
+  expect(getSubmissionVerdict([{ verdict: 'AC' }, { verdict: 'TLE' }, { verdict: 'WA' }])).toBe('TLE');
+});
+
+test('skipped test cases after a failure do not change the verdict', () => {
+  expect(getSubmissionVerdict([{ verdict: 'AC' }, { verdict: 'RE' }, { verdict: 'SK' }])).toBe('RE');
+});
+
+test('a submission with only accepted and skipped test cases is accepted', () => {
+  expect(getSubmissionVerdict([{ verdict: 'AC' }, { verdict: 'SK' }])).toBe('AC');
+  expect(getSubmissionVerdict([])).toBe('AC');
+});
+
+test('only known verdict codes are verdicts', () => {
+  expect(isVerdict('MLE')).toBe(true);
+  expect(isVerdict('ac')).toBe(false);
+  expect(isVerdict('toString')).toBe(false);
+  expect(isVerdict(undefined)).toBe(false);
+});
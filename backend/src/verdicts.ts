@@ -0,0 +1,26 @@
+// Standard judge verdict codes
+
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'MLE' | 'RE' | 'CE' | 'OLE' | 'IR' | 'IE' | 'SK';
+
+export const VERDICT_NAMES: Record<Verdict, string> = {
+  AC: 'Accepted',
+  WA: 'Wrong Answer',
+  TLE: 'Time Limit Exceeded',
+  MLE: 'Memory Limit Exceeded',
+  RE: 'Runtime Error',
+  CE: 'Compilation Error',
+  OLE: 'Output Limit Exceeded',
+  IR: 'Invalid Return',
+  IE: 'Internal Error',
+  SK: 'Skipped'
+};
+
+export const isVerdict = (value: any): value is Verdict => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VERDICT_NAMES, value);
+};
+
+// A submission takes the verdict of its first failing test case; skipped tests only follow a failure
+export const getSubmissionVerdict = (results: { verdict: Verdict }[]): Verdict => {
+  const failed = results.find(result => result.verdict !== 'AC' && result.verdict !== 'SK');
+  return failed ? failed.verdict : 'AC';
+};
@@ -11,6 +11,8 @@ import Contests from './pages/Contests';
 import ContestDetail from './pages/ContestDetail';
 import Admin from './pages/Admin';
 import Profile from './pages/Profile';
+import Submissions from './pages/Submissions';
+import SubmissionDetail from './pages/SubmissionDetail';
 import VerificationBanner from './components/VerificationBanner';
 import './App.css';
 
@@ -180,6 +182,14 @@ function App() {
             path="/contest/:id" 
             element={user ? <ContestDetail /> : <Navigate to="/login" />} 
           />
+          <Route 
+            path="/submissions" 
+            element={user ? <Submissions /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/submission/:id" 
+            element={user ? <SubmissionDetail /> : <Navigate to="/login" />} 
+          />
           <Route 
             path="/admin" 
             element={
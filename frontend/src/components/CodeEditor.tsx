@@ -0,0 +1,100 @@
+import React from 'react';
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-clike';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-python';
+import './CodeEditor.css';
+
+// Prism grammar for each judge language ID
+const PRISM_LANGUAGES: Record<string, string> = {
+  python3: 'python',
+  cpp: 'cpp',
+  c: 'c',
+  java: 'java',
+  javascript: 'javascript'
+};
+
+// Starting code for each language, reading from standard input the way the judge expects
+const CODE_TEMPLATES: Record<string, string> = {
+  python3: `import sys
+input = sys.stdin.readline
+
+
+def main():
+    pass
+
+
+main()
+`,
+  cpp: `#include <bits/stdc++.h>
+using namespace std;
+
+int main() {
+    ios::sync_with_stdio(false);
+    cin.tie(nullptr);
+
+    return 0;
+}
+`,
+  c: `#include <stdio.h>
+
+int main(void) {
+
+    return 0;
+}
+`,
+  java: `import java.io.*;
+import java.util.*;
+
+public class Main {
+    public static void main(String[] args) throws IOException {
+        BufferedReader in = new BufferedReader(new InputStreamReader(System.in));
+
+    }
+}
+`,
+  javascript: `const lines = require('fs').readFileSync(0, 'utf8').split('\\n');
+
+`
+};
+
+export const getCodeTemplate = (languageId: string) => CODE_TEMPLATES[languageId] || '';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  languageId: string;
+  id?: string;
+}
+
+const escapeHtml = (code: string) => code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Source editor with syntax highlighting; Tab indents instead of moving focus
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, languageId, id }) => {
+  const highlight = (code: string) => {
+    const grammar = Prism.languages[PRISM_LANGUAGES[languageId]];
+    return grammar ? Prism.highlight(code, grammar, PRISM_LANGUAGES[languageId]) : escapeHtml(code);
+  };
+
+  return (
+    <div className="code-editor">
+      <Editor
+        value={value}
+        onValueChange={onChange}
+        highlight={highlight}
+        tabSize={4}
+        insertSpaces
+        padding={16}
+        textareaId={id}
+        textareaClassName="code-editor-textarea"
+        preClassName="code-editor-highlight"
+        placeholder="Write your solution here"
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
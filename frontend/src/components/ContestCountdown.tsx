@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import './ContestCountdown.css';
+
+interface ContestCountdownProps {
+  startTime: string;
+  endTime: string | null;
+  serverOffsetMs: number; // Server clock minus this browser's clock, so the countdown follows the server
+  onPhaseChange?: () => void; // Called when the contest starts or ends while the page is open
+  endLabel?: string;
+  endedLabel?: string;
+}
+
+type Phase = 'upcoming' | 'running' | 'ended';
+
+const getPhase = (now: number, start: number, end: number | null): Phase => {
+  if (now < start) return 'upcoming';
+  if (end !== null && now >= end) return 'ended';
+  return 'running';
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const clock = [
+    Math.floor(totalSeconds / 3600) % 24,
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60
+  ].map(part => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+// Live countdown to a contest's start, then to its end (or to the end of a participant's window)
+const ContestCountdown: React.FC<ContestCountdownProps> = ({
+  startTime,
+  endTime,
+  serverOffsetMs,
+  onPhaseChange,
+  endLabel = 'Ends in',
+  endedLabel = 'Contest ended'
+}) => {
+  const [now, setNow] = useState(() => Date.now() + serverOffsetMs);
+  const start = new Date(startTime).getTime();
+  const end = endTime ? new Date(endTime).getTime() : null;
+  const phase = getPhase(now, start, end);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() + serverOffsetMs), 1000);
+    return () => clearInterval(timer);
+  }, [serverOffsetMs]);
+
+  const [lastPhase, setLastPhase] = useState(phase);
+  useEffect(() => {
+    if (phase !== lastPhase) {
+      setLastPhase(phase);
+      onPhaseChange?.();
+    }
+  }, [phase, lastPhase, onPhaseChange]);
+
+  if (phase === 'ended') {
+    return (
+      <div className="contest-countdown countdown-ended">
+        <span className="countdown-label">{endedLabel}</span>
+      </div>
+    );
+  }
+
+  if (phase === 'running' && end === null) {
+    return (
+      <div className="contest-countdown countdown-running">
+        <span className="countdown-label">Contest in progress</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`contest-countdown countdown-${phase}`}>
+      <span className="countdown-label">{phase === 'upcoming' ? 'Starts in' : endLabel}</span>
+      <span className="countdown-time">{formatDuration((phase === 'upcoming' ? start : end!) - now)}</span>
+    </div>
+  );
+};
+
+export default ContestCountdown;
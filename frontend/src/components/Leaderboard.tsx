@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import { supabase } from '../services/supabase';
-import { secureApi } from '../services/secureApi';
+import { secureApi, LeaderboardPage, LeaderboardSubscription } from '../services/secureApi';
+import VerdictBadge, { Verdict } from './VerdictBadge';
+import RatingBadge from './RatingBadge';
 
 interface ContestSubmission {
   id: string;
@@ -12,34 +14,133 @@ interface ContestSubmission {
   submitted_at: string;
 }
 
+type ScoringMode = 'points' | 'icpc';
+
+// A contestant's result on one problem
+interface ProblemResult {
+  problem_id: string;
+  solved: boolean;
+  solve_minutes: number | null;
+  hidden: number; // Submissions after the scoreboard freeze
+  first_solve: boolean; // The earliest solve of the problem in the contest
+}
+
+interface PointsProblemResult extends ProblemResult {
+  score: number;
+  total_points: number;
+}
+
+interface IcpcProblemResult extends ProblemResult {
+  attempts: number;
+  pending: number;
+}
+
 interface LeaderboardEntry {
+  rank: number; // Shared by tied entries
   user_id: string;
   username: string;
   total_score: number;
   total_possible_score: number;
   problems_solved: number;
   total_problems: number;
+  verdict_counts: Partial<Record<Verdict, number>>;
+  hidden_problems: string[]; // Problems with results hidden by the scoreboard freeze
+  penalty?: number; // ICPC only
+  problems: (PointsProblemResult | IcpcProblemResult)[];
+  rating_change: { old_rating: number; new_rating: number; performance: number } | null; // Once ratings are finalized
+}
+
+interface LeaderboardProblem {
+  id: string;
+  title: string;
+}
+
+interface LeaderboardFreeze {
+  freeze_time: string | null;
+  frozen: boolean;
+  live: boolean; // An admin's live board while participants see it frozen
+  revealed: number;
 }
 
+interface LeaderboardData {
+  viewer_id: string | null;
+  scoring_mode: ScoringMode;
+  problems: LeaderboardProblem[];
+  entries: LeaderboardEntry[]; // One page of the board
+  viewer_entry: LeaderboardEntry | null;
+  page: number;
+  page_size: number;
+  total_entries: number;
+  freeze: LeaderboardFreeze;
+}
+
+// Pushed by the live leaderboard socket: the whole page first, then the entries that changed
+type LeaderboardUpdate =
+  | { type: 'snapshot'; leaderboard: LeaderboardData }
+  | {
+    type: 'delta';
+    changed: LeaderboardEntry[];
+    order: string[];
+    viewer_entry: LeaderboardEntry | null;
+    page: number;
+    total_entries: number;
+    freeze: LeaderboardFreeze;
+  }
+  | { type: 'error'; error: string };
+
+const ICPC_PENALTY_MINUTES = 20;
+// Without a live connection, the board is fetched again this often
+const POLL_INTERVAL_MS = 30000;
+const RANK_ANIMATION_MS = 600;
+
+// Problems are labelled A, B, C, ... in contest order
+const getProblemLabel = (index: number) => String.fromCharCode(65 + index);
+
 interface LeaderboardProps {
   contestId: string;
+  publicView?: boolean; // For admins: show the board participants see instead of the live one
+  refreshKey?: number; // Changing it fetches the board again
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ contestId }) => {
+const Leaderboard: React.FC<LeaderboardProps> = ({ contestId, publicView = false, refreshKey }) => {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('points');
+  const [problems, setProblems] = useState<LeaderboardProblem[]>([]);
+  const [freeze, setFreeze] = useState<LeaderboardFreeze | null>(null);
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [viewerEntry, setViewerEntry] = useState<LeaderboardEntry | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(1);
+  const [totalEntries, setTotalEntries] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const rowRefs = useRef(new Map<string, HTMLTableRowElement>());
+  const rowTops = useRef(new Map<string, number>());
+  // The page asked for, which stays 'me' so the board follows the viewer's own entry
+  const requestedPage = useRef<LeaderboardPage>(1);
+  const subscription = useRef<LeaderboardSubscription | null>(null);
+
+  const showLeaderboard = (data: LeaderboardData) => {
+    setLeaderboard(data.entries);
+    setScoringMode(data.scoring_mode);
+    setProblems(data.problems);
+    setFreeze(data.freeze);
+    setViewerId(data.viewer_id);
+    setViewerEntry(data.viewer_entry);
+    setPage(data.page);
+    setPageSize(data.page_size);
+    setTotalEntries(data.total_entries);
+  };
 
   const fetchLeaderboard = useCallback(async () => {
     try {
-      setLoading(true);
       setError('');
 
       // Use the backend API to fetch leaderboard data
-      const response = await secureApi.getLeaderboard(contestId);
+      const response = await secureApi.getLeaderboard(contestId, publicView, requestedPage.current);
       
       if (response.success && response.data) {
-        setLeaderboard(response.data);
+        showLeaderboard(response.data);
       } else {
         throw new Error(response.error || 'Failed to fetch leaderboard');
       }
@@ -50,11 +151,96 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ contestId }) => {
     } finally {
       setLoading(false);
     }
-  }, [contestId]);
+  }, [contestId, publicView]);
 
   useEffect(() => {
     fetchLeaderboard();
-  }, [fetchLeaderboard]);
+  }, [fetchLeaderboard, refreshKey]);
+
+  // Follow the board live, or poll it when there is no live connection
+  useEffect(() => {
+    let closed = false;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+    const startPolling = () => {
+      subscription.current = null;
+      if (!closed && !pollTimer) {
+        pollTimer = setInterval(fetchLeaderboard, POLL_INTERVAL_MS);
+      }
+    };
+
+    const applyUpdate = (update: LeaderboardUpdate) => {
+      if (update.type === 'snapshot') {
+        showLeaderboard(update.leaderboard);
+      } else if (update.type === 'delta') {
+        setLeaderboard(entries => {
+          const byUser = new Map(entries.map(entry => [entry.user_id, entry]));
+          update.changed.forEach(entry => byUser.set(entry.user_id, entry));
+          return update.order.map(userId => byUser.get(userId)).filter((entry): entry is LeaderboardEntry => !!entry);
+        });
+        setViewerEntry(update.viewer_entry);
+        setPage(update.page);
+        setTotalEntries(update.total_entries);
+        setFreeze(update.freeze);
+      } else {
+        console.error('Live leaderboard error:', update.error);
+      }
+    };
+
+    secureApi.subscribeToLeaderboard(contestId, publicView, requestedPage.current, applyUpdate, startPolling).then(live => {
+      if (closed) {
+        live?.close();
+      } else if (live) {
+        subscription.current = live;
+      } else {
+        startPolling();
+      }
+    });
+
+    return () => {
+      closed = true;
+      subscription.current?.close();
+      subscription.current = null;
+      clearInterval(pollTimer);
+    };
+  }, [contestId, publicView, fetchLeaderboard]);
+
+  // Rows that changed place slide from where they were to where they are now
+  useLayoutEffect(() => {
+    rowRefs.current.forEach((row, userId) => {
+      const previousTop = rowTops.current.get(userId);
+      if (previousTop !== undefined && previousTop !== row.offsetTop) {
+        row.animate(
+          [{ transform: `translateY(${previousTop - row.offsetTop}px)` }, { transform: 'translateY(0)' }],
+          { duration: RANK_ANIMATION_MS, easing: 'ease-in-out' }
+        );
+      }
+      rowTops.current.set(userId, row.offsetTop);
+    });
+  }, [leaderboard]);
+
+  const setRowRef = (userId: string) => (row: HTMLTableRowElement | null) => {
+    if (row) {
+      rowRefs.current.set(userId, row);
+    } else {
+      rowRefs.current.delete(userId);
+      rowTops.current.delete(userId);
+    }
+  };
+
+  const showPage = (nextPage: LeaderboardPage) => {
+    requestedPage.current = nextPage;
+    if (subscription.current) {
+      subscription.current.showPage(nextPage);
+    } else {
+      fetchLeaderboard();
+    }
+  };
+
+  const freezeTime = freeze?.freeze_time ? new Date(freeze.freeze_time).toLocaleTimeString() : '';
+  const totalPages = Math.max(1, Math.ceil(totalEntries / pageSize));
+  const viewerOnPage = leaderboard.some(entry => entry.user_id === viewerId);
+  const showRatings = leaderboard.some(entry => entry.rating_change);
 
   if (loading) {
     return (
@@ -78,47 +264,241 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ contestId }) => {
     <div style={styles.container}>
       <h2 style={styles.title}>Leaderboard</h2>
       <p style={styles.description}>
-        Ranked by total score across all problems.
+        {scoringMode === 'icpc'
+          ? `Ranked by problems solved, then by penalty: minutes to each problem's first accepted submission plus ${ICPC_PENALTY_MINUTES} minutes for every rejected attempt before it.`
+          : 'Ranked by total score across all problems.'}
       </p>
+
+      {freeze?.frozen && (
+        <div style={styles.frozenBanner}>
+          ❄️ The scoreboard has been frozen since {freezeTime}.{' '}
+          {freeze.revealed > 0
+            ? 'Hidden results are being revealed.'
+            : "Results of other participants' submissions after that stay hidden until they are revealed after the contest. Your own results are always shown."}
+        </div>
+      )}
+      {freeze?.live && (
+        <div style={styles.liveBanner}>
+          🔴 Live scoreboard. Participants see it frozen since {freezeTime}.
+        </div>
+      )}
       
-      {leaderboard.length === 0 ? (
+      {totalEntries === 0 ? (
         <div style={styles.emptyState}>
           <p>No participants yet.</p>
         </div>
       ) : (
         <div style={styles.tableContainer}>
           <table style={styles.table}>
-            <thead>
+            <thead style={styles.stickyHeader}>
               <tr style={styles.headerRow}>
                 <th style={styles.headerCell}>Rank</th>
                 <th style={styles.headerCell}>User</th>
-                <th style={styles.headerCell}>Score</th>
+                {scoringMode === 'icpc' ? (
+                  <>
+                    <th style={styles.headerCell}>Solved</th>
+                    <th style={styles.headerCell}>Penalty</th>
+                  </>
+                ) : (
+                  <th style={styles.headerCell}>Score</th>
+                )}
+                {problems.map((problem, index) => (
+                  <th key={problem.id} style={styles.problemHeaderCell} title={problem.title}>
+                    {getProblemLabel(index)}
+                  </th>
+                ))}
+                {scoringMode !== 'icpc' && <th style={styles.headerCell}>Verdicts</th>}
+                {showRatings && <th style={styles.headerCell}>Rating</th>}
               </tr>
+              {/* The viewer's own row stays in sight above the board while scrolling, on every page */}
+              {viewerEntry && totalEntries > 1 && (
+                <LeaderboardRow
+                  entry={viewerEntry}
+                  scoringMode={scoringMode}
+                  problems={problems}
+                  showRating={showRatings}
+                  rowStyle={styles.pinnedRow}
+                />
+              )}
             </thead>
             <tbody>
-              {leaderboard.map((entry, index) => (
-                <tr key={entry.user_id} style={styles.row}>
-                  <td style={styles.cell}>
-                    <span style={getRankStyle(index + 1)}>
-                      {index + 1}
-                    </span>
-                  </td>
-                  <td style={styles.cell}>
-                    <span style={styles.username}>
-                      {entry.username}
-                    </span>
-                  </td>
-                  <td style={styles.cell}>
-                    <span style={styles.score}>
-                      {entry.total_score}/{entry.total_possible_score}
-                    </span>
-                  </td>
-                </tr>
+              {leaderboard.map(entry => (
+                <LeaderboardRow
+                  key={entry.user_id}
+                  entry={entry}
+                  scoringMode={scoringMode}
+                  problems={problems}
+                  showRating={showRatings}
+                  rowStyle={entry.user_id === viewerId ? { ...styles.row, ...styles.viewerRow } : styles.row}
+                  rowRef={setRowRef(entry.user_id)}
+                />
               ))}
             </tbody>
           </table>
         </div>
       )}
+
+      {(totalPages > 1 || (viewerEntry && !viewerOnPage)) && (
+        <div style={styles.pagination}>
+          <button className="btn btn-secondary" onClick={() => showPage(page - 1)} disabled={page <= 1}>
+            ← Previous
+          </button>
+          <span style={styles.paginationText}>
+            Page {page} of {totalPages} · {totalEntries} participants
+          </span>
+          <button className="btn btn-secondary" onClick={() => showPage(page + 1)} disabled={page >= totalPages}>
+            Next →
+          </button>
+          {viewerEntry && (
+            <button className="btn btn-secondary" onClick={() => showPage('me')} disabled={viewerOnPage}>
+              Find me (#{viewerEntry.rank})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface LeaderboardRowProps {
+  entry: LeaderboardEntry;
+  scoringMode: ScoringMode;
+  problems: LeaderboardProblem[];
+  showRating: boolean;
+  rowStyle: React.CSSProperties;
+  rowRef?: (row: HTMLTableRowElement | null) => void;
+}
+
+const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ entry, scoringMode, problems, showRating, rowStyle, rowRef }) => (
+  <tr style={rowStyle} ref={rowRef}>
+    <td style={styles.cell}>
+      <span style={getRankStyle(entry.rank)}>
+        {entry.rank}
+      </span>
+    </td>
+    <td style={styles.cell}>
+      <span style={styles.username}>
+        {entry.username}
+      </span>
+    </td>
+    {scoringMode === 'icpc' ? (
+      <>
+        <td style={styles.cell}>
+          <span style={styles.score}>{entry.problems_solved}</span>
+        </td>
+        <td style={styles.cell}>{entry.penalty}</td>
+      </>
+    ) : (
+      <td style={styles.cell}>
+        <span style={styles.score}>
+          {entry.total_score}/{entry.total_possible_score}
+        </span>
+      </td>
+    )}
+    {problems.map(problem => {
+      const result = entry.problems.find(r => r.problem_id === problem.id);
+      return (
+        <td key={problem.id} style={styles.problemCell}>
+          {scoringMode === 'icpc'
+            ? <IcpcCell result={result as IcpcProblemResult | undefined} />
+            : <PointsCell result={result as PointsProblemResult | undefined} />}
+        </td>
+      );
+    })}
+    {scoringMode !== 'icpc' && (
+      <td style={styles.cell}>
+        <span style={styles.verdicts}>
+          {(Object.entries(entry.verdict_counts || {}) as [Verdict, number][]).map(([verdict, count]) => (
+            <VerdictBadge key={verdict} verdict={verdict} count={count} />
+          ))}
+        </span>
+      </td>
+    )}
+    {showRating && (
+      <td style={styles.cell}>
+        {entry.rating_change && <RatingChangeCell change={entry.rating_change} />}
+      </td>
+    )}
+  </tr>
+);
+
+// The rating change from this contest, and the rating it led to
+const RatingChangeCell: React.FC<{ change: NonNullable<LeaderboardEntry['rating_change']> }> = ({ change }) => {
+  const delta = change.new_rating - change.old_rating;
+  return (
+    <span style={styles.ratingChange} title={`${change.old_rating} → ${change.new_rating}, performance ${change.performance}`}>
+      <span style={{ color: delta >= 0 ? '#00ff88' : '#ff4444', fontWeight: 'bold' }}>
+        {delta >= 0 ? '+' : ''}{delta}
+      </span>
+      <RatingBadge rating={change.new_rating} />
+    </span>
+  );
+};
+
+// Submissions after the scoreboard freeze, shown in place of a result that may have changed
+const FrozenCell: React.FC<{ label: string; hidden: number }> = ({ label, hidden }) => (
+  <div style={{ ...styles.icpcCell, ...styles.icpcFrozen }} title={`${hidden} submissions after the scoreboard freeze`}>
+    <span>?</span>
+    <span style={styles.icpcTime}>{label}</span>
+  </div>
+);
+
+// Green when all points are earned, amber for partial points, red for none
+const PointsCell: React.FC<{ result?: PointsProblemResult }> = ({ result }) => {
+  if (!result || (result.solve_minutes === null && !result.hidden)) {
+    return null;
+  }
+
+  if (result.hidden > 0) {
+    return <FrozenCell label={`${result.score} + ${result.hidden}`} hidden={result.hidden} />;
+  }
+
+  const resultStyle = result.solved ? styles.icpcSolved : result.score > 0 ? styles.icpcPending : styles.icpcFailed;
+  return (
+    <div
+      style={{ ...styles.icpcCell, ...resultStyle, ...(result.first_solve ? styles.firstSolve : {}) }}
+      title={`${result.score}/${result.total_points} points at ${result.solve_minutes} min${result.first_solve ? ', first to solve' : ''}`}
+    >
+      <span>{result.score}</span>
+      <span style={styles.icpcTime}>{result.solve_minutes}</span>
+    </div>
+  );
+};
+
+// Green when solved (+ and the rejected attempts before it), red when only rejected, amber while judging
+const IcpcCell: React.FC<{ result?: IcpcProblemResult }> = ({ result }) => {
+  if (!result || (result.attempts === 0 && result.pending === 0 && !result.hidden)) {
+    return null;
+  }
+
+  if (result.solved) {
+    return (
+      <div
+        style={{ ...styles.icpcCell, ...styles.icpcSolved, ...(result.first_solve ? styles.firstSolve : {}) }}
+        title={`Solved at ${result.solve_minutes} min in ${result.attempts} attempts${result.first_solve ? ', first to solve' : ''}`}
+      >
+        <span>{result.attempts > 1 ? `+${result.attempts - 1}` : '+'}</span>
+        <span style={styles.icpcTime}>{result.solve_minutes}</span>
+      </div>
+    );
+  }
+
+  if (result.hidden > 0) {
+    return <FrozenCell label={`${result.attempts} + ${result.hidden}`} hidden={result.hidden} />;
+  }
+
+  if (result.pending > 0) {
+    return (
+      <div style={{ ...styles.icpcCell, ...styles.icpcPending }} title={`${result.pending} submissions being judged`}>
+        <span>?</span>
+        <span style={styles.icpcTime}>{result.attempts} + {result.pending}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ ...styles.icpcCell, ...styles.icpcFailed }} title={`${result.attempts} rejected attempts`}>
+      <span>-{result.attempts}</span>
     </div>
   );
 };
@@ -164,13 +544,19 @@ const styles = {
     fontSize: '1.1rem'
   },
   tableContainer: {
-    overflowX: 'auto' as const
+    overflow: 'auto' as const,
+    maxHeight: '70vh'
   },
   table: {
     width: '100%',
     borderCollapse: 'collapse' as const,
     color: '#fff'
   },
+  stickyHeader: {
+    position: 'sticky' as const,
+    top: 0,
+    zIndex: 1
+  },
   headerRow: {
     backgroundColor: '#2a2a2a'
   },
@@ -188,10 +574,65 @@ const styles = {
       backgroundColor: '#2a2a2a'
     }
   },
+  viewerRow: {
+    backgroundColor: 'rgba(0, 255, 136, 0.08)'
+  },
+  pinnedRow: {
+    backgroundColor: '#1f2a24',
+    borderBottom: '2px solid #00ff88'
+  },
   cell: {
     padding: '1rem',
     textAlign: 'left' as const
   },
+  problemHeaderCell: {
+    padding: '1rem 0.5rem',
+    textAlign: 'center' as const,
+    borderBottom: '1px solid #333',
+    color: '#00ff88',
+    fontWeight: 'bold',
+    fontSize: '1rem',
+    minWidth: '3.5rem'
+  },
+  problemCell: {
+    padding: '0.4rem',
+    textAlign: 'center' as const
+  },
+  icpcCell: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    alignItems: 'center',
+    padding: '0.3rem 0.5rem',
+    borderRadius: '6px',
+    fontWeight: 'bold',
+    lineHeight: 1.2
+  },
+  icpcSolved: {
+    color: '#00ff88',
+    backgroundColor: 'rgba(0, 255, 136, 0.15)'
+  },
+  icpcFailed: {
+    color: '#ff4444',
+    backgroundColor: 'rgba(255, 68, 68, 0.15)'
+  },
+  icpcPending: {
+    color: '#ffaa00',
+    backgroundColor: 'rgba(255, 170, 0, 0.15)'
+  },
+  firstSolve: {
+    color: '#1a1a1a',
+    backgroundColor: '#00ff88',
+    boxShadow: '0 0 8px rgba(0, 255, 136, 0.6)'
+  },
+  icpcFrozen: {
+    color: '#0088ff',
+    backgroundColor: 'rgba(0, 136, 255, 0.15)'
+  },
+  icpcTime: {
+    fontSize: '0.75rem',
+    fontWeight: 'normal',
+    opacity: 0.8
+  },
   rank: {
     fontSize: '1.2rem',
     fontWeight: 'bold'
@@ -205,6 +646,46 @@ const styles = {
     fontWeight: 'bold',
     fontSize: '1rem'
   },
+  verdicts: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '0.4rem'
+  },
+  ratingChange: {
+    display: 'inline-flex',
+    gap: '0.6rem',
+    whiteSpace: 'nowrap' as const
+  },
+  frozenBanner: {
+    color: '#0088ff',
+    backgroundColor: 'rgba(0, 136, 255, 0.1)',
+    border: '1px solid rgba(0, 136, 255, 0.4)',
+    borderRadius: '6px',
+    padding: '0.75rem 1rem',
+    marginBottom: '1.5rem',
+    fontSize: '0.9rem'
+  },
+  liveBanner: {
+    color: '#ff4444',
+    backgroundColor: 'rgba(255, 68, 68, 0.1)',
+    border: '1px solid rgba(255, 68, 68, 0.4)',
+    borderRadius: '6px',
+    padding: '0.75rem 1rem',
+    marginBottom: '1.5rem',
+    fontSize: '0.9rem'
+  },
+  pagination: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const,
+    gap: '1rem',
+    marginTop: '1.5rem'
+  },
+  paginationText: {
+    color: '#888',
+    fontSize: '0.9rem'
+  },
   description: {
     color: '#888',
     fontSize: '0.9rem',
@@ -27,6 +27,7 @@ const Navigation: React.FC = () => {
     { path: '/', label: 'Home', icon: '🏠' },
     { path: '/contests', label: 'Contests', icon: '🏆' },
     { path: '/problems', label: 'Problems', icon: '💻' },
+    { path: '/submissions', label: 'My Submissions', icon: '📝' },
     { path: '/profile', label: 'Profile', icon: '👤' },
   ];
 
@@ -0,0 +1,34 @@
+import React from 'react';
+import './RatingBadge.css';
+
+// Rank titles by rating, Codeforces-style, lowest first
+export const RATING_RANKS = [
+  { title: 'Newbie', min: 0, color: '#9e9e9e' },
+  { title: 'Pupil', min: 1200, color: '#4caf50' },
+  { title: 'Specialist', min: 1400, color: '#03a8a0' },
+  { title: 'Expert', min: 1600, color: '#3f7fff' },
+  { title: 'Candidate Master', min: 1900, color: '#b04fff' },
+  { title: 'Master', min: 2100, color: '#ff9800' },
+  { title: 'Grandmaster', min: 2400, color: '#ff4444' }
+];
+
+export const getRatingRank = (rating: number) => {
+  return [...RATING_RANKS].reverse().find(rank => rating >= rank.min) || RATING_RANKS[0];
+};
+
+interface RatingBadgeProps {
+  rating: number;
+  showTitle?: boolean;
+}
+
+const RatingBadge: React.FC<RatingBadgeProps> = ({ rating, showTitle = false }) => {
+  const rank = getRatingRank(rating);
+  return (
+    <span className="rating-badge" style={{ color: rank.color }} title={rank.title}>
+      {showTitle && <span className="rating-title">{rank.title}</span>}
+      <span className="rating-value">{rating}</span>
+    </span>
+  );
+};
+
+export default RatingBadge;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { RATING_RANKS, getRatingRank } from './RatingBadge';
+import './RatingGraph.css';
+
+export interface RatingHistoryEntry {
+  contest_id: string;
+  contest_title: string;
+  rank: number;
+  performance: number;
+  old_rating: number;
+  new_rating: number;
+  created_at: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = 24;
+const RATING_MARGIN = 100; // Room above and below the highest and lowest rating
+
+// A user's rating after each rated contest, over the rank colours of the ratings it passed through
+const RatingGraph: React.FC<{ history: RatingHistoryEntry[] }> = ({ history }) => {
+  const ratings = [history[0].old_rating, ...history.map(entry => entry.new_rating)];
+  const minRating = Math.min(...ratings) - RATING_MARGIN;
+  const maxRating = Math.max(...ratings) + RATING_MARGIN;
+
+  const getX = (index: number) => PADDING + (index * (WIDTH - 2 * PADDING)) / Math.max(ratings.length - 1, 1);
+  const getY = (rating: number) => PADDING + ((maxRating - rating) * (HEIGHT - 2 * PADDING)) / (maxRating - minRating);
+  const clampY = (rating: number) => getY(Math.min(Math.max(rating, minRating), maxRating));
+
+  return (
+    <svg className="rating-graph" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Rating history">
+      {RATING_RANKS.map((rank, index) => {
+        const top = clampY(RATING_RANKS[index + 1]?.min ?? maxRating);
+        const bottom = clampY(rank.min);
+        return bottom > top && (
+          <rect key={rank.title} x={PADDING} y={top} width={WIDTH - 2 * PADDING} height={bottom - top} fill={rank.color} opacity={0.12} />
+        );
+      })}
+      <polyline
+        className="rating-graph-line"
+        points={ratings.map((rating, index) => `${getX(index)},${getY(rating)}`).join(' ')}
+      />
+      {history.map((entry, index) => {
+        const delta = entry.new_rating - entry.old_rating;
+        return (
+          <circle
+            key={entry.contest_id}
+            cx={getX(index + 1)}
+            cy={getY(entry.new_rating)}
+            r={5}
+            fill={getRatingRank(entry.new_rating).color}
+          >
+            <title>
+              {`${entry.contest_title}\nRank ${entry.rank} · ${entry.new_rating} (${delta >= 0 ? '+' : ''}${delta})\nPerformance ${entry.performance}`}
+            </title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default RatingGraph;
@@ -0,0 +1,172 @@
+import React from 'react';
+import VerdictBadge, { Verdict } from './VerdictBadge';
+import './SubmissionResults.css';
+
+export interface TestResult {
+  testCaseId: string;
+  passed: boolean;
+  verdict: Verdict;
+  actualOutput?: string;
+  expectedOutput?: string;
+  input?: string;
+  error?: string;
+  wallTimeMs?: number;
+  cpuTimeMs?: number;
+  memoryKb?: number;
+  score?: number;
+  checkerMessage?: string;
+  batch?: number | null;
+  sample?: boolean; // Hidden tests come back without their input, outputs or messages
+}
+
+export interface BatchResult {
+  batch: number;
+  name: string;
+  points: number;
+  earned: number;
+  passed: boolean;
+}
+
+export type SubmissionStatus = 'QUEUED' | 'COMPILING' | 'RUNNING' | 'DONE';
+
+export interface Submission {
+  id: string;
+  status: SubmissionStatus;
+  verdict: Verdict | null;
+  passed_tests: number | null;
+  total_tests: number;
+  points: number | null;
+  total_points?: number | null;
+  batch_results?: BatchResult[] | null;
+  results: TestResult[];
+  compile_error: string | null;
+  error: string | null;
+  runningTest?: number; // Index of the test currently running, known only from live events
+}
+
+interface SubmissionResultsProps {
+  submission: Submission;
+}
+
+// Verdict summary and per-test results of a judged (or still judging) submission
+const SubmissionResults: React.FC<SubmissionResultsProps> = ({ submission }) => {
+  const renderBatchHeader = (batch: number) => {
+    const batchResult = submission.batch_results?.find(result => result.batch === batch);
+
+    return (
+      <div className={`batch-header ${batchResult ? (batchResult.passed ? 'passed' : 'failed') : ''}`}>
+        <span className="batch-name">{batchResult?.name || `Batch ${batch}`}</span>
+        {batchResult && (
+          <span className="batch-points">{batchResult.earned}/{batchResult.points} points</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {submission.status === 'DONE' && submission.verdict && (
+        <div className="score-display">
+          <div className="score-item">
+            <span className="score-label">Verdict</span>
+            <VerdictBadge verdict={submission.verdict} showName />
+          </div>
+          <div className="score-item">
+            <span className="score-label">Score</span>
+            <span className="score-value">{submission.points || 0}/{submission.total_points ?? submission.total_tests}</span>
+          </div>
+          <div className="score-item">
+            <span className="score-label">Test Cases</span>
+            <span className="score-value">
+              {submission.passed_tests || 0}/{submission.total_tests} passed
+            </span>
+          </div>
+        </div>
+      )}
+    
+      {submission.compile_error && (
+        <div className="compile-error">
+          <span className="detail-label">Compilation Error:</span>
+          <pre className="compile-error-output">{submission.compile_error}</pre>
+        </div>
+      )}
+
+      {submission.error && (
+        <div className="compile-error">
+          <span className="detail-label">Judge Error:</span>
+          <pre className="compile-error-output">{submission.error}</pre>
+        </div>
+      )}
+
+      <div className="test-results">
+        {submission.results.map((result, index) => (
+          <React.Fragment key={index}>
+            {result.batch && result.batch !== submission.results[index - 1]?.batch && renderBatchHeader(result.batch)}
+            <div className={`test-result ${result.passed ? 'passed' : result.verdict === 'SK' ? 'skipped' : 'failed'}`}>
+              <div className="test-header">
+                <span className="test-number">
+                  Test Case {index + 1}
+                  {result.sample && <span className="test-sample-tag">Sample</span>}
+                </span>
+                <span className="test-metrics">
+                  {(result.cpuTimeMs ?? result.wallTimeMs) !== undefined && (
+                    <span>{result.cpuTimeMs ?? result.wallTimeMs} ms</span>
+                  )}
+                  {result.memoryKb !== undefined && (
+                    <span>{(result.memoryKb / 1024).toFixed(1)} MB</span>
+                  )}
+                  {result.score !== undefined && result.score > 0 && result.score < 1 && (
+                    <span>{Math.round(result.score * 100)}% credit</span>
+                  )}
+                </span>
+                <VerdictBadge verdict={result.verdict} showName />
+              </div>
+          
+              {!result.passed && result.sample && (
+                <div className="test-details">
+                  <div className="detail-item">
+                    <span className="detail-label">Input:</span>
+                    <code className="detail-value">{result.input}</code>
+                  </div>
+                  <div className="detail-item">
+                    <span className="detail-label">Expected:</span>
+                    <code className="detail-value">{result.expectedOutput}</code>
+                  </div>
+                  <div className="detail-item">
+                    <span className="detail-label">Actual:</span>
+                    <code className="detail-value">{result.actualOutput}</code>
+                  </div>
+                  {result.checkerMessage && (
+                    <div className="detail-item">
+                      <span className="detail-label">Checker:</span>
+                      <code className="detail-value">{result.checkerMessage}</code>
+                    </div>
+                  )}
+                  {result.error && (
+                    <div className="detail-item">
+                      <span className="detail-label">Error:</span>
+                      <code className="detail-value error">{result.error}</code>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </React.Fragment>
+        ))}
+        {submission.status === 'RUNNING' && submission.runningTest !== undefined && (
+          <div className="test-result running">
+            <div className="test-header">
+              <span className="test-number">Test Case {submission.runningTest + 1}</span>
+              <span className="test-running">
+                <div className="spinner"></div>
+                <span>Running...</span>
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default SubmissionResults;
@@ -0,0 +1,35 @@
+import React from 'react';
+import './VerdictBadge.css';
+
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'MLE' | 'RE' | 'CE' | 'OLE' | 'IR' | 'IE' | 'SK';
+
+export const VERDICT_NAMES: Record<Verdict, string> = {
+  AC: 'Accepted',
+  WA: 'Wrong Answer',
+  TLE: 'Time Limit Exceeded',
+  MLE: 'Memory Limit Exceeded',
+  RE: 'Runtime Error',
+  CE: 'Compilation Error',
+  OLE: 'Output Limit Exceeded',
+  IR: 'Invalid Return',
+  IE: 'Internal Error',
+  SK: 'Skipped'
+};
+
+interface VerdictBadgeProps {
+  verdict: Verdict;
+  showName?: boolean;
+  count?: number;
+}
+
+const VerdictBadge: React.FC<VerdictBadgeProps> = ({ verdict, showName = false, count }) => {
+  return (
+    <span className={`verdict-badge verdict-${verdict.toLowerCase()}`} title={VERDICT_NAMES[verdict]}>
+      <span className="verdict-code">{verdict}</span>
+      {showName && <span className="verdict-name">{VERDICT_NAMES[verdict]}</span>}
+      {count !== undefined && <span className="verdict-count">×{count}</span>}
+    </span>
+  );
+};
+
+export default VerdictBadge;
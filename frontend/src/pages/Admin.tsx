@@ -1,19 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { secureApi } from '../services/secureApi';
 import MarkdownRenderer from '../components/MarkdownRenderer';
+import VerdictBadge, { Verdict } from '../components/VerdictBadge';
+import Leaderboard from '../components/Leaderboard';
 import './Admin.css';
 
 interface TestCase {
   input: string;
   expected_output: string;
+  batch: string; // Batch number, or '' when the problem has no batches
+  is_sample: boolean; // Samples are shown with the statement; other tests stay hidden
 }
 
+interface BatchConfig {
+  name: string;
+  points: string;
+  dependencies: number[];
+}
+
+// Points contests rank by total score; ICPC contests by problems solved, then penalty time
+type ScoringMode = 'points' | 'icpc';
+
 interface Contest {
   id: string;
   title: string;
   description: string;
   start_time: string;
   end_time: string | null;
+  window_minutes: number | null;
+  freeze_minutes: number | null;
+  unfrozen_at: string | null;
+  scoring_mode: ScoringMode;
+  rated: boolean;
+  ratings_finalized_at: string | null;
   is_active: boolean;
   created_at: string;
 }
@@ -23,10 +42,90 @@ interface Problem {
   title: string;
   description: string;
   contest_id: string | null;
+  time_limit_ms: number;
+  memory_limit_mb: number;
+  checker: string;
+  checker_precision: number | null;
+  checker_language: string | null;
+  checker_source: string | null;
   created_at: string;
 }
 
-type TabType = 'create-contest' | 'create-problem' | 'manage-contests' | 'manage-problems';
+interface Checker {
+  id: string;
+  name: string;
+  uses_precision: boolean;
+}
+
+interface Language {
+  id: string;
+  name: string;
+}
+
+interface CheckerConfig {
+  checker: string;
+  precision: string;
+  language: string;
+  source: string;
+}
+
+const CUSTOM_CHECKER_ID = 'custom';
+const DEFAULT_CHECKER_CONFIG: CheckerConfig = {
+  checker: 'exact',
+  precision: '',
+  language: 'cpp',
+  source: ''
+};
+
+type RejudgeScope = 'submission' | 'problem' | 'contest';
+
+interface RejudgeChange {
+  submissionId: string;
+  username: string;
+  problemId: string;
+  previousVerdict: Verdict | null;
+  previousPoints: number | null;
+  verdict: Verdict | null;
+  points: number | null;
+}
+
+interface RejudgeSummary {
+  id: string;
+  scope: RejudgeScope;
+  targetId: string;
+  finishedAt: string | null;
+  total: number;
+  completed: number;
+  skipped: number;
+  changes: RejudgeChange[];
+}
+
+const REJUDGE_POLL_INTERVAL_MS = 2000;
+
+// datetime-local inputs hold local time without a timezone, while the backend stores ISO timestamps
+const toDateTimeLocal = (timestamp: string | null) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => value ? new Date(value).toISOString() : null;
+
+// A contest's badge: Inactive until it is published, then wherever its schedule puts it
+const getContestStatus = (contest: Contest, now = Date.now()) => {
+  if (!contest.is_active) return { label: 'Inactive', className: 'status-inactive' };
+  if (new Date(contest.start_time).getTime() > now) return { label: 'Upcoming', className: 'status-contest' };
+  if (contest.end_time && new Date(contest.end_time).getTime() <= now) return { label: 'Ended', className: 'status-standalone' };
+  return { label: 'Running', className: 'status-active' };
+};
+
+const DEFAULT_TIME_LIMIT_MS = '5000';
+const DEFAULT_MEMORY_LIMIT_MB = '256';
+
+// Test cases are either typed into the form or uploaded as a zip of .in/.out files
+type TestDataMode = 'manual' | 'archive';
+
+type TabType = 'create-contest' | 'create-problem' | 'manage-contests' | 'manage-problems' | 'rejudge';
 
 const Admin: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('create-contest');
@@ -34,36 +133,84 @@ const Admin: React.FC = () => {
   // Contest creation state
   const [contestTitle, setContestTitle] = useState('');
   const [contestDescription, setContestDescription] = useState('');
+  const [contestStartTime, setContestStartTime] = useState('');
   const [contestEndTime, setContestEndTime] = useState('');
+  const [contestWindowMinutes, setContestWindowMinutes] = useState('');
+  const [contestFreezeMinutes, setContestFreezeMinutes] = useState('');
+  const [contestScoringMode, setContestScoringMode] = useState<ScoringMode>('points');
+  const [contestRated, setContestRated] = useState(false);
   
   // Problem creation state
   const [problemTitle, setProblemTitle] = useState('');
   const [problemDescription, setProblemDescription] = useState('');
   const [selectedContestId, setSelectedContestId] = useState<string>('');
+  const [problemTimeLimit, setProblemTimeLimit] = useState(DEFAULT_TIME_LIMIT_MS);
+  const [problemMemoryLimit, setProblemMemoryLimit] = useState(DEFAULT_MEMORY_LIMIT_MB);
+  const [problemChecker, setProblemChecker] = useState<CheckerConfig>(DEFAULT_CHECKER_CONFIG);
   const [testCases, setTestCases] = useState<TestCase[]>([
-    { input: '', expected_output: '' }
+    { input: '', expected_output: '', batch: '', is_sample: false }
   ]);
+  const [batches, setBatches] = useState<BatchConfig[]>([]);
+  const [testDataMode, setTestDataMode] = useState<TestDataMode>('manual');
+  const [testDataArchive, setTestDataArchive] = useState<File | null>(null);
   
   // Data state
   const [contests, setContests] = useState<Contest[]>([]);
   const [problems, setProblems] = useState<Problem[]>([]);
+  const [checkers, setCheckers] = useState<Checker[]>([]);
+  const [languages, setLanguages] = useState<Language[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
 
+  // Problem package import state
+  const [importErrors, setImportErrors] = useState<{ file: string; message: string }[]>([]);
+
+  // Rejudge state
+  const [rejudgeSubmissionId, setRejudgeSubmissionId] = useState('');
+  const [rejudge, setRejudge] = useState<RejudgeSummary | null>(null);
+
+  // Scoreboard resolver state
+  const [resolvingContest, setResolvingContest] = useState<Contest | null>(null);
+  const [revealCount, setRevealCount] = useState(0);
+  const [lastReveal, setLastReveal] = useState('');
+
   // Edit states
   const [editingContest, setEditingContest] = useState<Contest | null>(null);
   const [editingProblem, setEditingProblem] = useState<Problem | null>(null);
   const [editContestTitle, setEditContestTitle] = useState('');
   const [editContestDescription, setEditContestDescription] = useState('');
+  const [editContestStartTime, setEditContestStartTime] = useState('');
   const [editContestEndTime, setEditContestEndTime] = useState('');
+  const [editContestWindowMinutes, setEditContestWindowMinutes] = useState('');
+  const [editContestFreezeMinutes, setEditContestFreezeMinutes] = useState('');
+  const [editContestScoringMode, setEditContestScoringMode] = useState<ScoringMode>('points');
+  const [editContestRated, setEditContestRated] = useState(false);
   const [editProblemTitle, setEditProblemTitle] = useState('');
   const [editProblemDescription, setEditProblemDescription] = useState('');
   const [editProblemContestId, setEditProblemContestId] = useState<string>('');
+  const [editProblemTimeLimit, setEditProblemTimeLimit] = useState(DEFAULT_TIME_LIMIT_MS);
+  const [editProblemMemoryLimit, setEditProblemMemoryLimit] = useState(DEFAULT_MEMORY_LIMIT_MB);
+  const [editProblemChecker, setEditProblemChecker] = useState<CheckerConfig>(DEFAULT_CHECKER_CONFIG);
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Follow a running rejudge until every submission in it has been judged again
+  useEffect(() => {
+    if (!rejudge || rejudge.finishedAt) return;
+
+    const timer = setTimeout(async () => {
+      const result = await secureApi.adminGetRejudge(rejudge.id);
+      if (result.success) {
+        setRejudge(result.data);
+      } else {
+        setMessage(result.error || 'Failed to fetch rejudge progress');
+      }
+    }, REJUDGE_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [rejudge]);
+
   const fetchData = async () => {
     try {
       // Fetch contests using backend API
@@ -81,13 +228,29 @@ const Admin: React.FC = () => {
       } else {
         console.error('Error fetching problems:', problemsResult.error);
       }
+
+      // Fetch checker and language options for the problem editor
+      const checkersResult = await secureApi.adminGetCheckers();
+      if (checkersResult.success) {
+        setCheckers(checkersResult.data || []);
+      } else {
+        console.error('Error fetching checkers:', checkersResult.error);
+      }
+
+      const languagesResult = await secureApi.getLanguages();
+      if (languagesResult.success) {
+        setLanguages(languagesResult.data || []);
+      } else {
+        console.error('Error fetching languages:', languagesResult.error);
+      }
     } catch (error) {
       console.error('Error fetching data:', error);
     }
   };
 
   const addTestCase = () => {
-    setTestCases([...testCases, { input: '', expected_output: '' }]);
+    // New test cases go into the last batch, which is where they are usually added
+    setTestCases([...testCases, { input: '', expected_output: '', batch: batches.length > 0 ? String(batches.length) : '', is_sample: false }]);
   };
 
   const removeTestCase = (index: number) => {
@@ -96,12 +259,80 @@ const Admin: React.FC = () => {
     }
   };
 
-  const updateTestCase = (index: number, field: keyof TestCase, value: string) => {
+  const updateTestCase = (index: number, field: 'input' | 'expected_output' | 'batch', value: string) => {
     const updatedTestCases = [...testCases];
     updatedTestCases[index][field] = value;
     setTestCases(updatedTestCases);
   };
 
+  const toggleTestCaseSample = (index: number) => {
+    setTestCases(testCases.map((tc, i) => (i === index ? { ...tc, is_sample: !tc.is_sample } : tc)));
+  };
+
+  // Test cases are stored, judged and shown in the order they are listed here
+  const moveTestCase = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= testCases.length) return;
+    const reordered = [...testCases];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTestCases(reordered);
+  };
+
+  const addBatch = () => {
+    setBatches([...batches, { name: '', points: '', dependencies: [] }]);
+  };
+
+  // Removing a batch renumbers the later ones, so test case assignments and dependencies shift with them
+  const removeBatch = (index: number) => {
+    const removed = index + 1;
+    const renumber = (batch: number) => (batch > removed ? batch - 1 : batch);
+
+    setBatches(batches
+      .filter((_, i) => i !== index)
+      .map(batch => ({
+        ...batch,
+        dependencies: batch.dependencies.filter(dependency => dependency !== removed).map(renumber)
+      })));
+    setTestCases(testCases.map(tc => ({
+      ...tc,
+      batch: !tc.batch || Number(tc.batch) === removed ? '' : String(renumber(Number(tc.batch)))
+    })));
+  };
+
+  const updateBatch = (index: number, field: 'name' | 'points', value: string) => {
+    setBatches(batches.map((batch, i) => (i === index ? { ...batch, [field]: value } : batch)));
+  };
+
+  const toggleBatchDependency = (index: number, dependency: number) => {
+    setBatches(batches.map((batch, i) => {
+      if (i !== index) return batch;
+      const dependencies = batch.dependencies.includes(dependency)
+        ? batch.dependencies.filter(d => d !== dependency)
+        : [...batch.dependencies, dependency].sort((a, b) => a - b);
+      return { ...batch, dependencies };
+    }));
+  };
+
+  const toCheckerPayload = (config: CheckerConfig) => ({
+    checker: config.checker,
+    checker_precision: config.precision ? Number(config.precision) : null,
+    checker_language: config.checker === CUSTOM_CHECKER_ID ? config.language : null,
+    checker_source: config.checker === CUSTOM_CHECKER_ID ? config.source : null
+  });
+
+  const loadCheckerFile = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    config: CheckerConfig,
+    setConfig: (config: CheckerConfig) => void
+  ) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => setConfig({ ...config, source: String(reader.result || '') });
+    reader.readAsText(file);
+  };
+
   const handleCreateContest = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -117,7 +348,12 @@ const Admin: React.FC = () => {
       const result = await secureApi.adminCreateContest({
         title: contestTitle.trim(),
         description: contestDescription.trim(),
-        end_time: contestEndTime || null
+        start_time: fromDateTimeLocal(contestStartTime),
+        end_time: fromDateTimeLocal(contestEndTime),
+        window_minutes: contestWindowMinutes ? Number(contestWindowMinutes) : null,
+        freeze_minutes: contestFreezeMinutes ? Number(contestFreezeMinutes) : null,
+        scoring_mode: contestScoringMode,
+        rated: contestRated
       });
 
       if (!result.success) {
@@ -127,12 +363,17 @@ const Admin: React.FC = () => {
       setMessage('Contest created successfully!');
       setContestTitle('');
       setContestDescription('');
+      setContestStartTime('');
       setContestEndTime('');
+      setContestWindowMinutes('');
+      setContestFreezeMinutes('');
+      setContestScoringMode('points');
+      setContestRated(false);
       fetchData();
 
     } catch (error) {
       console.error('Error creating contest:', error);
-      setMessage('Failed to create contest. Please try again.');
+      setMessage(error instanceof Error ? error.message : 'Failed to create contest. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -146,11 +387,31 @@ const Admin: React.FC = () => {
       return;
     }
 
-    if (testCases.some(tc => !tc.input.trim() || !tc.expected_output.trim())) {
+    if (testDataMode === 'archive' && !testDataArchive) {
+      setMessage('Please choose a zip file of test data');
+      return;
+    }
+
+    if (testDataMode === 'manual' && testCases.some(tc => !tc.input.trim() || !tc.expected_output.trim())) {
       setMessage('Please fill in all test case fields');
       return;
     }
 
+    if (problemChecker.checker === CUSTOM_CHECKER_ID && !problemChecker.source.trim()) {
+      setMessage('Please provide the custom checker source code');
+      return;
+    }
+
+    if (batches.some(batch => !(Number(batch.points) > 0))) {
+      setMessage('Every batch needs a positive number of points');
+      return;
+    }
+
+    if (testDataMode === 'manual' && batches.length > 0 && testCases.some(tc => !tc.batch)) {
+      setMessage('Please assign every test case to a batch');
+      return;
+    }
+
     setLoading(true);
     setMessage('');
 
@@ -159,9 +420,20 @@ const Admin: React.FC = () => {
         title: problemTitle.trim(),
         description: problemDescription.trim(),
         contest_id: selectedContestId || null,
-        test_cases: testCases.map(tc => ({
-          input: tc.input.trim(),
-          expected_output: tc.expected_output.trim()
+        time_limit_ms: Number(problemTimeLimit),
+        memory_limit_mb: Number(problemMemoryLimit),
+        ...toCheckerPayload(problemChecker),
+        batches: batches.map(batch => ({
+          name: batch.name.trim(),
+          points: Number(batch.points),
+          dependencies: batch.dependencies
+        })),
+        // A zip of test data is uploaded once the problem exists
+        test_cases: testDataMode === 'archive' ? [] : testCases.map(tc => ({
+          input: tc.input,
+          expected_output: tc.expected_output,
+          batch: batches.length > 0 ? Number(tc.batch) : null,
+          is_sample: tc.is_sample
         }))
       });
 
@@ -169,11 +441,26 @@ const Admin: React.FC = () => {
         throw new Error(result.error || 'Failed to create problem');
       }
 
+      if (testDataMode === 'archive' && testDataArchive) {
+        const uploadResult = await secureApi.adminUploadTestData(result.data.id, testDataArchive);
+        if (!uploadResult.success) {
+          setMessage(`The problem was created, but its test data was not: ${uploadResult.error || 'upload failed'}. Upload it again from Manage Problems.`);
+          fetchData();
+          return;
+        }
+      }
+
       setMessage('Problem created successfully!');
       setProblemTitle('');
       setProblemDescription('');
       setSelectedContestId('');
-      setTestCases([{ input: '', expected_output: '' }]);
+      setProblemTimeLimit(DEFAULT_TIME_LIMIT_MS);
+      setProblemMemoryLimit(DEFAULT_MEMORY_LIMIT_MB);
+      setProblemChecker(DEFAULT_CHECKER_CONFIG);
+      setTestCases([{ input: '', expected_output: '', batch: '', is_sample: false }]);
+      setBatches([]);
+      setTestDataMode('manual');
+      setTestDataArchive(null);
       fetchData();
 
     } catch (error) {
@@ -238,11 +525,180 @@ const Admin: React.FC = () => {
     }
   };
 
+  const uploadTestData = async (problem: Problem, e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive) {
+      return;
+    }
+
+    if (!window.confirm(`Replace every test case of "${problem.title}" with the tests in ${archive.name}?`)) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage('');
+    try {
+      const result = await secureApi.adminUploadTestData(problem.id, archive);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to upload test data');
+      }
+      setMessage(`Uploaded ${result.data.testCases} test cases (${result.data.samples} samples) successfully!`);
+    } catch (error) {
+      console.error('Error uploading test data:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to upload test data. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importProblem = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const problemPackage = e.target.files?.[0];
+    e.target.value = '';
+    if (!problemPackage) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage('');
+    setImportErrors([]);
+    try {
+      const result = await secureApi.adminImportProblem(problemPackage);
+      if (!result.success) {
+        setImportErrors(result.errors || []);
+        throw new Error(result.error || 'Failed to import problem');
+      }
+      setMessage(`Imported "${result.data.problem.title}" with ${result.data.testCases} test cases successfully!`);
+      fetchData();
+    } catch (error) {
+      console.error('Error importing problem:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to import problem. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportProblem = async (problem: Problem) => {
+    const result = await secureApi.adminExportProblem(problem.id);
+    if (!result.success || !result.data) {
+      setMessage(result.error || 'Failed to export problem. Please try again.');
+      return;
+    }
+
+    const url = URL.createObjectURL(result.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${problem.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'problem'}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const startRejudge = async (scope: RejudgeScope, id: string, label: string) => {
+    if (!window.confirm(`Rejudge ${label} against the current test data? Results and contest scores may change.`)) {
+      return;
+    }
+
+    try {
+      const result = await secureApi.adminRejudge(scope, id);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to start rejudge');
+      }
+
+      setRejudge(result.data);
+      setActiveTab('rejudge');
+      setMessage(`Rejudge of ${label} started successfully!`);
+    } catch (error) {
+      console.error('Error starting rejudge:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to start rejudge. Please try again.');
+    }
+  };
+
+  const handleRejudgeSubmission = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rejudgeSubmissionId.trim()) {
+      startRejudge('submission', rejudgeSubmissionId.trim(), 'this submission');
+    }
+  };
+
+  // A frozen scoreboard can be resolved once its contest is over
+  const isResolvable = (contest: Contest) => {
+    return !!contest.freeze_minutes &&
+      !contest.unfrozen_at &&
+      !!contest.end_time &&
+      new Date(contest.end_time).getTime() <= Date.now();
+  };
+
+  const startResolving = (contest: Contest) => {
+    setResolvingContest(contest);
+    setLastReveal('');
+    setRevealCount(count => count + 1);
+  };
+
+  const revealResults = async (all: boolean) => {
+    if (!resolvingContest) return;
+
+    try {
+      const result = await secureApi.adminUnfreezeContest(resolvingContest.id, all);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to unfreeze scoreboard');
+      }
+
+      const { revealed, remaining } = result.data;
+      if (revealed) {
+        const problemTitle = problems.find(p => p.id === revealed.problem_id)?.title || 'a problem';
+        setLastReveal(`Revealed ${revealed.username}'s result on "${problemTitle}". ${remaining} hidden results left.`);
+      }
+      if (remaining === 0) {
+        setLastReveal('Every result has been revealed and the scoreboard is unfrozen.');
+        setMessage('Scoreboard unfrozen successfully!');
+        fetchData();
+      }
+      setRevealCount(count => count + 1);
+    } catch (error) {
+      console.error('Error unfreezing scoreboard:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to unfreeze scoreboard. Please try again.');
+    }
+  };
+
+  // Ratings are calculated once a rated contest is over and its scoreboard is no longer frozen
+  const canFinalizeRatings = (contest: Contest) => {
+    return contest.rated &&
+      !contest.ratings_finalized_at &&
+      !!contest.end_time &&
+      new Date(contest.end_time).getTime() <= Date.now() &&
+      (!contest.freeze_minutes || !!contest.unfrozen_at);
+  };
+
+  const finalizeRatings = async (contest: Contest) => {
+    if (!window.confirm(`Finalize ratings for "${contest.title}"? Rating changes can't be undone.`)) {
+      return;
+    }
+
+    try {
+      const result = await secureApi.adminFinalizeRatings(contest.id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to finalize ratings');
+      }
+
+      setMessage(`Ratings finalized successfully! ${result.data.rated} participants were rated.`);
+      fetchData();
+    } catch (error) {
+      console.error('Error finalizing ratings:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to finalize ratings. Please try again.');
+    }
+  };
+
   const startEditContest = (contest: Contest) => {
     setEditingContest(contest);
     setEditContestTitle(contest.title);
     setEditContestDescription(contest.description);
-    setEditContestEndTime(contest.end_time || '');
+    setEditContestStartTime(toDateTimeLocal(contest.start_time));
+    setEditContestEndTime(toDateTimeLocal(contest.end_time));
+    setEditContestWindowMinutes(contest.window_minutes ? String(contest.window_minutes) : '');
+    setEditContestFreezeMinutes(contest.freeze_minutes ? String(contest.freeze_minutes) : '');
+    setEditContestScoringMode(contest.scoring_mode || 'points');
+    setEditContestRated(!!contest.rated);
   };
 
   const startEditProblem = (problem: Problem) => {
@@ -250,6 +706,14 @@ const Admin: React.FC = () => {
     setEditProblemTitle(problem.title);
     setEditProblemDescription(problem.description);
     setEditProblemContestId(problem.contest_id || '');
+    setEditProblemTimeLimit(String(problem.time_limit_ms || DEFAULT_TIME_LIMIT_MS));
+    setEditProblemMemoryLimit(String(problem.memory_limit_mb || DEFAULT_MEMORY_LIMIT_MB));
+    setEditProblemChecker({
+      checker: problem.checker || DEFAULT_CHECKER_CONFIG.checker,
+      precision: problem.checker_precision ? String(problem.checker_precision) : '',
+      language: problem.checker_language || DEFAULT_CHECKER_CONFIG.language,
+      source: problem.checker_source || ''
+    });
   };
 
   const cancelEdit = () => {
@@ -257,10 +721,18 @@ const Admin: React.FC = () => {
     setEditingProblem(null);
     setEditContestTitle('');
     setEditContestDescription('');
+    setEditContestStartTime('');
     setEditContestEndTime('');
+    setEditContestWindowMinutes('');
+    setEditContestFreezeMinutes('');
+    setEditContestScoringMode('points');
+    setEditContestRated(false);
     setEditProblemTitle('');
     setEditProblemDescription('');
     setEditProblemContestId('');
+    setEditProblemTimeLimit(DEFAULT_TIME_LIMIT_MS);
+    setEditProblemMemoryLimit(DEFAULT_MEMORY_LIMIT_MB);
+    setEditProblemChecker(DEFAULT_CHECKER_CONFIG);
   };
 
   const handleUpdateContest = async () => {
@@ -273,7 +745,12 @@ const Admin: React.FC = () => {
       const result = await secureApi.adminUpdateContest(editingContest.id, {
         title: editContestTitle.trim(),
         description: editContestDescription.trim(),
-        end_time: editContestEndTime || null
+        start_time: fromDateTimeLocal(editContestStartTime),
+        end_time: fromDateTimeLocal(editContestEndTime),
+        window_minutes: editContestWindowMinutes ? Number(editContestWindowMinutes) : null,
+        freeze_minutes: editContestFreezeMinutes ? Number(editContestFreezeMinutes) : null,
+        scoring_mode: editContestScoringMode,
+        rated: editContestRated
       });
 
       if (!result.success) {
@@ -285,7 +762,7 @@ const Admin: React.FC = () => {
       fetchData();
     } catch (error) {
       console.error('Error updating contest:', error);
-      setMessage('Failed to update contest. Please try again.');
+      setMessage(error instanceof Error ? error.message : 'Failed to update contest. Please try again.');
     }
   };
 
@@ -299,7 +776,10 @@ const Admin: React.FC = () => {
       const result = await secureApi.adminUpdateProblem(editingProblem.id, {
         title: editProblemTitle.trim(),
         description: editProblemDescription.trim(),
-        contest_id: editProblemContestId || null
+        contest_id: editProblemContestId || null,
+        time_limit_ms: Number(editProblemTimeLimit),
+        memory_limit_mb: Number(editProblemMemoryLimit),
+        ...toCheckerPayload(editProblemChecker)
       });
 
       if (!result.success) {
@@ -315,6 +795,77 @@ const Admin: React.FC = () => {
     }
   };
 
+  const renderCheckerFields = (config: CheckerConfig, setConfig: (config: CheckerConfig) => void) => {
+    const selectedChecker = checkers.find(checker => checker.id === config.checker);
+
+    return (
+      <div className="form-group">
+        <label className="form-label">Output Checker</label>
+        <select
+          value={config.checker}
+          onChange={(e) => setConfig({ ...config, checker: e.target.value })}
+          className="form-input"
+        >
+          {checkers.map(checker => (
+            <option key={checker.id} value={checker.id}>
+              {checker.name}
+            </option>
+          ))}
+          <option value={CUSTOM_CHECKER_ID}>Custom checker program</option>
+        </select>
+
+        {selectedChecker?.uses_precision && (
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={config.precision}
+            onChange={(e) => setConfig({ ...config, precision: e.target.value })}
+            className="form-input checker-option"
+            placeholder="Tolerance (default 1e-6)"
+          />
+        )}
+
+        {config.checker === CUSTOM_CHECKER_ID && (
+          <div className="checker-option">
+            <div className="markdown-help">
+              <span className="help-icon">⚖️</span>
+              <span>
+                Run as <code>checker input.txt expected.txt actual.txt</code>. Exit 0 for accepted, 1 for wrong answer,
+                or 2 for partial credit with the fraction (0 to 1) on the first line of stdout. Stderr is shown to the user.
+              </span>
+            </div>
+            <div className="form-row">
+              <select
+                value={config.language}
+                onChange={(e) => setConfig({ ...config, language: e.target.value })}
+                className="form-input"
+              >
+                {languages.map(language => (
+                  <option key={language.id} value={language.id}>
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="file"
+                onChange={(e) => loadCheckerFile(e, config, setConfig)}
+                className="form-input"
+              />
+            </div>
+            <textarea
+              value={config.source}
+              onChange={(e) => setConfig({ ...config, source: e.target.value })}
+              className="form-textarea checker-source"
+              placeholder="Checker source code"
+              rows={10}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderCreateContest = () => (
     <div className="admin-section">
       <div className="section-header">
@@ -349,6 +900,16 @@ const Admin: React.FC = () => {
           />
         </div>
 
+        <div className="form-group">
+          <label className="form-label">Start Time (Optional, defaults to now)</label>
+          <input
+            type="datetime-local"
+            value={contestStartTime}
+            onChange={(e) => setContestStartTime(e.target.value)}
+            className="form-input"
+          />
+        </div>
+
         <div className="form-group">
           <label className="form-label">End Time (Optional)</label>
           <input
@@ -359,6 +920,53 @@ const Admin: React.FC = () => {
           />
         </div>
 
+        <div className="form-group">
+          <label className="form-label">Personal Time Window (Optional, minutes)</label>
+          <input
+            type="number"
+            min="1"
+            value={contestWindowMinutes}
+            onChange={(e) => setContestWindowMinutes(e.target.value)}
+            className="form-input"
+            placeholder="e.g. 180 for a 3-hour window each participant starts when they like"
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Scoreboard Freeze (Optional, minutes before the end)</label>
+          <input
+            type="number"
+            min="1"
+            value={contestFreezeMinutes}
+            onChange={(e) => setContestFreezeMinutes(e.target.value)}
+            className="form-input"
+            placeholder="e.g. 60 to hide results in the last hour until you reveal them"
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Scoring</label>
+          <select
+            value={contestScoringMode}
+            onChange={(e) => setContestScoringMode(e.target.value as ScoringMode)}
+            className="form-input"
+          >
+            <option value="points">Points (total score across problems)</option>
+            <option value="icpc">ICPC (problems solved, then penalty time)</option>
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="contest-rated">
+            <input
+              type="checkbox"
+              checked={contestRated}
+              onChange={(e) => setContestRated(e.target.checked)}
+            />
+            <span>Rated: update participants' ratings from the final standings</span>
+          </label>
+        </div>
+
         <button
           type="submit"
           disabled={loading}
@@ -440,33 +1048,211 @@ const Admin: React.FC = () => {
           </select>
         </div>
 
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Time Limit (ms) *</label>
+            <input
+              type="number"
+              min={1}
+              value={problemTimeLimit}
+              onChange={(e) => setProblemTimeLimit(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Memory Limit (MB) *</label>
+            <input
+              type="number"
+              min={1}
+              value={problemMemoryLimit}
+              onChange={(e) => setProblemMemoryLimit(e.target.value)}
+              className="form-input"
+              required
+            />
+          </div>
+        </div>
+
+        {renderCheckerFields(problemChecker, setProblemChecker)}
+
         <div className="test-cases-section">
           <div className="test-cases-header">
-            <h3 className="section-title">Test Cases *</h3>
+            <h3 className="section-title">Batches</h3>
             <button
               type="button"
-              onClick={addTestCase}
+              onClick={addBatch}
               className="btn btn-secondary add-btn"
             >
-              <span>Add Test Case</span>
+              <span>Add Batch</span>
               <span>➕</span>
             </button>
           </div>
 
-          {testCases.map((testCase, index) => (
+          <div className="markdown-help">
+            <span className="help-icon">📦</span>
+            <span>
+              Optional. A batch earns its points only if every test case in it passes, and only if the batches it
+              depends on were fully solved. Without batches, each test case is worth one point.
+            </span>
+          </div>
+
+          {batches.map((batch, index) => (
+            <div key={index} className="batch-config card">
+              <div className="test-case-header">
+                <h4 className="test-case-title">Batch {index + 1}</h4>
+                <button
+                  type="button"
+                  onClick={() => removeBatch(index)}
+                  className="btn btn-danger remove-btn"
+                >
+                  <span>Remove</span>
+                  <span>🗑️</span>
+                </button>
+              </div>
+
+              <div className="form-row">
+                <input
+                  type="text"
+                  value={batch.name}
+                  onChange={(e) => updateBatch(index, 'name', e.target.value)}
+                  className="form-input"
+                  placeholder={`Batch ${index + 1}`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={batch.points}
+                  onChange={(e) => updateBatch(index, 'points', e.target.value)}
+                  className="form-input"
+                  placeholder="Points"
+                  required
+                />
+              </div>
+
+              {index > 0 && (
+                <div className="batch-dependencies">
+                  <span className="form-label">Depends on:</span>
+                  {batches.slice(0, index).map((_, dependencyIndex) => (
+                    <label key={dependencyIndex} className="batch-dependency">
+                      <input
+                        type="checkbox"
+                        checked={batch.dependencies.includes(dependencyIndex + 1)}
+                        onChange={() => toggleBatchDependency(index, dependencyIndex + 1)}
+                      />
+                      <span>Batch {dependencyIndex + 1}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="test-cases-section">
+          <div className="test-cases-header">
+            <h3 className="section-title">Test Cases *</h3>
+            <div className="test-data-tabs">
+              <button
+                type="button"
+                onClick={() => setTestDataMode('manual')}
+                className={`test-data-tab ${testDataMode === 'manual' ? 'active' : ''}`}
+              >
+                Enter Tests
+              </button>
+              <button
+                type="button"
+                onClick={() => setTestDataMode('archive')}
+                className={`test-data-tab ${testDataMode === 'archive' ? 'active' : ''}`}
+              >
+                Upload Zip
+              </button>
+            </div>
+            {testDataMode === 'manual' && (
+              <button
+                type="button"
+                onClick={addTestCase}
+                className="btn btn-secondary add-btn"
+              >
+                <span>Add Test Case</span>
+                <span>➕</span>
+              </button>
+            )}
+          </div>
+
+          {testDataMode === 'archive' && (
+            <div className="test-data-upload card">
+              <input
+                type="file"
+                accept=".zip"
+                onChange={(e) => setTestDataArchive(e.target.files?.[0] || null)}
+                className="form-input"
+              />
+              <p className="test-data-help">
+                Pair each input with its answer: <code>1.in</code> with <code>1.out</code> (or <code>1.ans</code>).
+                Put tests in a folder named by batch number (<code>2/1.in</code>) when the problem has batches,
+                and start sample names with <code>sample</code>. Files are stored exactly as uploaded.
+              </p>
+            </div>
+          )}
+
+          {testDataMode === 'manual' && testCases.map((testCase, index) => (
             <div key={index} className="test-case card">
               <div className="test-case-header">
                 <h4 className="test-case-title">Test Case {index + 1}</h4>
-                {testCases.length > 1 && (
+                <div className="test-case-controls">
+                  {batches.length > 0 && (
+                    <select
+                      value={testCase.batch}
+                      onChange={(e) => updateTestCase(index, 'batch', e.target.value)}
+                      className="form-input batch-select"
+                      required
+                    >
+                      <option value="">Choose batch</option>
+                      {batches.map((batch, batchIndex) => (
+                        <option key={batchIndex} value={batchIndex + 1}>
+                          {batch.name.trim() || `Batch ${batchIndex + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <label className="test-case-sample">
+                    <input
+                      type="checkbox"
+                      checked={testCase.is_sample}
+                      onChange={() => toggleTestCaseSample(index)}
+                    />
+                    <span>Sample</span>
+                  </label>
                   <button
                     type="button"
-                    onClick={() => removeTestCase(index)}
-                    className="btn btn-danger remove-btn"
+                    onClick={() => moveTestCase(index, -1)}
+                    className="btn btn-secondary move-btn"
+                    disabled={index === 0}
+                    title="Move up"
                   >
-                    <span>Remove</span>
-                    <span>🗑️</span>
+                    ↑
                   </button>
-                )}
+                  <button
+                    type="button"
+                    onClick={() => moveTestCase(index, 1)}
+                    className="btn btn-secondary move-btn"
+                    disabled={index === testCases.length - 1}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  {testCases.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeTestCase(index)}
+                      className="btn btn-danger remove-btn"
+                    >
+                      <span>Remove</span>
+                      <span>🗑️</span>
+                    </button>
+                  )}
+                </div>
               </div>
               
               <div className="test-case-inputs">
@@ -527,7 +1313,36 @@ const Admin: React.FC = () => {
           View, edit, and manage existing contests
         </p>
       </div>
-      
+
+      {resolvingContest && (
+        <div className="resolver card">
+          <div className="resolver-header">
+            <div>
+              <h3 className="resolver-title">Resolving {resolvingContest.title}</h3>
+              <p className="resolver-help">
+                Reveal the results hidden by the scoreboard freeze one at a time, starting from the bottom of the board.
+              </p>
+            </div>
+            <div className="resolver-actions">
+              <button onClick={() => revealResults(false)} className="btn btn-primary">
+                <span>Reveal Next</span>
+                <span>▶️</span>
+              </button>
+              <button onClick={() => revealResults(true)} className="btn btn-secondary">
+                <span>Reveal All</span>
+                <span>⏭️</span>
+              </button>
+              <button onClick={() => setResolvingContest(null)} className="btn btn-secondary">
+                <span>Close</span>
+                <span>❌</span>
+              </button>
+            </div>
+          </div>
+          {lastReveal && <p className="resolver-last">{lastReveal}</p>}
+          <Leaderboard contestId={resolvingContest.id} publicView refreshKey={revealCount} />
+        </div>
+      )}
+
       {contests.length === 0 ? (
         <div className="empty-state">
           <div className="empty-icon">🏆</div>
@@ -562,6 +1377,15 @@ const Admin: React.FC = () => {
                       required
                     />
                   </div>
+                  <div className="form-group">
+                    <label className="form-label">Start Time</label>
+                    <input
+                      type="datetime-local"
+                      value={editContestStartTime}
+                      onChange={(e) => setEditContestStartTime(e.target.value)}
+                      className="form-input"
+                    />
+                  </div>
                   <div className="form-group">
                     <label className="form-label">End Time</label>
                     <input
@@ -571,6 +1395,50 @@ const Admin: React.FC = () => {
                       className="form-input"
                     />
                   </div>
+                  <div className="form-group">
+                    <label className="form-label">Personal Time Window (minutes)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editContestWindowMinutes}
+                      onChange={(e) => setEditContestWindowMinutes(e.target.value)}
+                      className="form-input"
+                      placeholder="Leave empty for a contest everyone takes at the same time"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label className="form-label">Scoreboard Freeze (minutes before the end)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={editContestFreezeMinutes}
+                      onChange={(e) => setEditContestFreezeMinutes(e.target.value)}
+                      className="form-input"
+                      placeholder="Leave empty to keep the scoreboard live"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label className="form-label">Scoring</label>
+                    <select
+                      value={editContestScoringMode}
+                      onChange={(e) => setEditContestScoringMode(e.target.value as ScoringMode)}
+                      className="form-input"
+                    >
+                      <option value="points">Points (total score across problems)</option>
+                      <option value="icpc">ICPC (problems solved, then penalty time)</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label className="contest-rated">
+                      <input
+                        type="checkbox"
+                        checked={editContestRated}
+                        onChange={(e) => setEditContestRated(e.target.checked)}
+                        disabled={!!editingContest.ratings_finalized_at}
+                      />
+                      <span>Rated{editingContest.ratings_finalized_at && ' (ratings already finalized)'}</span>
+                    </label>
+                  </div>
                   <div className="edit-actions">
                     <button onClick={handleUpdateContest} className="btn btn-primary">
                       <span>Save</span>
@@ -586,8 +1454,8 @@ const Admin: React.FC = () => {
                 <>
                   <div className="list-item-header">
                     <h3 className="list-item-title">{contest.title}</h3>
-                    <span className={`status-badge ${contest.is_active ? 'status-active' : 'status-inactive'}`}>
-                      {contest.is_active ? 'Active' : 'Inactive'}
+                    <span className={`status-badge ${getContestStatus(contest).className}`}>
+                      {getContestStatus(contest).label}
                     </span>
                   </div>
                   <p className="list-item-description">{contest.description}</p>
@@ -596,10 +1464,41 @@ const Admin: React.FC = () => {
                       <span className="meta-icon">📅</span>
                       <span>Created: {new Date(contest.created_at).toLocaleDateString()}</span>
                     </span>
+                    <span className="meta-item">
+                      <span className="meta-icon">🚀</span>
+                      <span>Starts: {new Date(contest.start_time).toLocaleString()}</span>
+                    </span>
                     {contest.end_time && (
                       <span className="meta-item">
                         <span className="meta-icon">⏰</span>
-                        <span>Ends: {new Date(contest.end_time).toLocaleDateString()}</span>
+                        <span>Ends: {new Date(contest.end_time).toLocaleString()}</span>
+                      </span>
+                    )}
+                    {contest.window_minutes && (
+                      <span className="meta-item">
+                        <span className="meta-icon">⏱️</span>
+                        <span>{contest.window_minutes}-minute window</span>
+                      </span>
+                    )}
+                    {contest.scoring_mode === 'icpc' && (
+                      <span className="meta-item">
+                        <span className="meta-icon">🎈</span>
+                        <span>ICPC scoring</span>
+                      </span>
+                    )}
+                    {contest.freeze_minutes && (
+                      <span className="meta-item">
+                        <span className="meta-icon">❄️</span>
+                        <span>
+                          Freezes {contest.freeze_minutes} min before the end
+                          {contest.unfrozen_at && ' (unfrozen)'}
+                        </span>
+                      </span>
+                    )}
+                    {contest.rated && (
+                      <span className="meta-item">
+                        <span className="meta-icon">📈</span>
+                        <span>Rated{contest.ratings_finalized_at && ' (ratings finalized)'}</span>
                       </span>
                     )}
                   </div>
@@ -618,6 +1517,31 @@ const Admin: React.FC = () => {
                       <span>Edit</span>
                       <span>✏️</span>
                     </button>
+                    <button
+                      onClick={() => startRejudge('contest', contest.id, `every submission in "${contest.title}"`)}
+                      className="btn btn-secondary"
+                    >
+                      <span>Rejudge</span>
+                      <span>🔁</span>
+                    </button>
+                    {isResolvable(contest) && (
+                      <button
+                        onClick={() => startResolving(contest)}
+                        className="btn btn-secondary"
+                      >
+                        <span>Resolve</span>
+                        <span>❄️</span>
+                      </button>
+                    )}
+                    {canFinalizeRatings(contest) && (
+                      <button
+                        onClick={() => finalizeRatings(contest)}
+                        className="btn btn-secondary"
+                      >
+                        <span>Finalize Ratings</span>
+                        <span>📈</span>
+                      </button>
+                    )}
                     <button
                       onClick={() => deleteContest(contest.id)}
                       className="btn btn-danger"
@@ -643,6 +1567,31 @@ const Admin: React.FC = () => {
           View, edit, and manage existing problems
         </p>
       </div>
+
+      <div className="package-import card">
+        <div>
+          <h3 className="package-import-title">Import a Problem Package</h3>
+          <p className="package-import-help">
+            Upload a Kattis problem package (.zip) with <code>problem.yaml</code>, a Markdown statement
+            and <code>data/sample</code> and <code>data/secret</code> tests.
+          </p>
+        </div>
+        <label className={`btn btn-primary ${loading ? 'disabled' : ''}`}>
+          <span>Import Package</span>
+          <span>📥</span>
+          <input type="file" accept=".zip" onChange={importProblem} disabled={loading} hidden />
+        </label>
+      </div>
+
+      {importErrors.length > 0 && (
+        <ul className="package-errors">
+          {importErrors.map((error, index) => (
+            <li key={index}>
+              <code>{error.file}</code>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
       
       {problems.length === 0 ? (
         <div className="empty-state">
@@ -703,6 +1652,31 @@ const Admin: React.FC = () => {
                       ))}
                     </select>
                   </div>
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label className="form-label">Time Limit (ms) *</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={editProblemTimeLimit}
+                        onChange={(e) => setEditProblemTimeLimit(e.target.value)}
+                        className="form-input"
+                        required
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label className="form-label">Memory Limit (MB) *</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={editProblemMemoryLimit}
+                        onChange={(e) => setEditProblemMemoryLimit(e.target.value)}
+                        className="form-input"
+                        required
+                      />
+                    </div>
+                  </div>
+                  {renderCheckerFields(editProblemChecker, setEditProblemChecker)}
                   <div className="edit-actions">
                     <button onClick={handleUpdateProblem} className="btn btn-primary">
                       <span>Save</span>
@@ -728,6 +1702,14 @@ const Admin: React.FC = () => {
                       <span className="meta-icon">📅</span>
                       <span>Created: {new Date(problem.created_at).toLocaleDateString()}</span>
                     </span>
+                    <span className="meta-item">
+                      <span className="meta-icon">⏱️</span>
+                      <span>{problem.time_limit_ms} ms</span>
+                    </span>
+                    <span className="meta-item">
+                      <span className="meta-icon">💾</span>
+                      <span>{problem.memory_limit_mb} MB</span>
+                    </span>
                   </div>
                   <div className="list-item-actions">
                     <button
@@ -737,6 +1719,31 @@ const Admin: React.FC = () => {
                       <span>Edit</span>
                       <span>✏️</span>
                     </button>
+                    <button
+                      onClick={() => exportProblem(problem)}
+                      className="btn btn-secondary"
+                    >
+                      <span>Export</span>
+                      <span>📤</span>
+                    </button>
+                    <label className={`btn btn-secondary ${loading ? 'disabled' : ''}`}>
+                      <span>Upload Tests</span>
+                      <span>📦</span>
+                      <input
+                        type="file"
+                        accept=".zip"
+                        onChange={(e) => uploadTestData(problem, e)}
+                        disabled={loading}
+                        hidden
+                      />
+                    </label>
+                    <button
+                      onClick={() => startRejudge('problem', problem.id, `every submission to "${problem.title}"`)}
+                      className="btn btn-secondary"
+                    >
+                      <span>Rejudge</span>
+                      <span>🔁</span>
+                    </button>
                     <button
                       onClick={() => deleteProblem(problem.id)}
                       className="btn btn-danger"
@@ -754,6 +1761,86 @@ const Admin: React.FC = () => {
     </div>
   );
 
+  const renderRejudge = () => (
+    <div className="admin-section">
+      <div className="section-header">
+        <h2 className="section-title">Rejudge</h2>
+        <p className="section-subtitle">
+          Judge submissions again after fixing test data. Rejudge a whole problem or contest from its Manage tab.
+        </p>
+      </div>
+
+      <form onSubmit={handleRejudgeSubmission} className="rejudge-form">
+        <input
+          type="text"
+          value={rejudgeSubmissionId}
+          onChange={(e) => setRejudgeSubmissionId(e.target.value)}
+          className="form-input"
+          placeholder="Submission ID"
+        />
+        <button type="submit" className="btn btn-primary" disabled={!rejudgeSubmissionId.trim()}>
+          <span>Rejudge Submission</span>
+          <span>🔁</span>
+        </button>
+      </form>
+
+      {rejudge && (
+        <div className="rejudge-status card">
+          <div className="rejudge-progress-header">
+            <span className="rejudge-scope">
+              {rejudge.scope === 'submission' && 'Submission rejudge'}
+              {rejudge.scope === 'problem' && `Problem: ${problems.find(p => p.id === rejudge.targetId)?.title || rejudge.targetId}`}
+              {rejudge.scope === 'contest' && `Contest: ${contests.find(c => c.id === rejudge.targetId)?.title || rejudge.targetId}`}
+            </span>
+            <span className="rejudge-count">
+              {rejudge.finishedAt ? 'Finished' : 'Judging'}: {rejudge.completed}/{rejudge.total} submissions
+              {rejudge.skipped > 0 && ` (${rejudge.skipped} skipped)`}
+            </span>
+          </div>
+          <div className="rejudge-progress">
+            <div
+              className="rejudge-progress-bar"
+              style={{ width: `${rejudge.total > 0 ? (rejudge.completed / rejudge.total) * 100 : 100}%` }}
+            />
+          </div>
+
+          {rejudge.changes.length === 0 ? (
+            <p className="rejudge-empty">
+              {rejudge.finishedAt ? 'No verdicts changed.' : 'No verdicts have changed so far.'}
+            </p>
+          ) : (
+            <table className="rejudge-table">
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Problem</th>
+                  <th>Verdict</th>
+                  <th>Points</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rejudge.changes.map(change => (
+                  <tr key={change.submissionId}>
+                    <td>{change.username}</td>
+                    <td>{problems.find(p => p.id === change.problemId)?.title || change.problemId}</td>
+                    <td>
+                      <span className="rejudge-change">
+                        {change.previousVerdict ? <VerdictBadge verdict={change.previousVerdict} /> : '—'}
+                        <span>→</span>
+                        {change.verdict ? <VerdictBadge verdict={change.verdict} /> : '—'}
+                      </span>
+                    </td>
+                    <td>{change.previousPoints ?? 0} → {change.points ?? 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="admin-page">
       <div className="page-container">
@@ -793,6 +1880,13 @@ const Admin: React.FC = () => {
             <span>Manage Problems</span>
             <span>📝</span>
           </button>
+          <button
+            onClick={() => setActiveTab('rejudge')}
+            className={`admin-tab ${activeTab === 'rejudge' ? 'active' : ''}`}
+          >
+            <span>Rejudge</span>
+            <span>🔁</span>
+          </button>
         </div>
 
         {message && (
@@ -809,6 +1903,7 @@ const Admin: React.FC = () => {
           {activeTab === 'create-problem' && renderCreateProblem()}
           {activeTab === 'manage-contests' && renderManageContests()}
           {activeTab === 'manage-problems' && renderManageProblems()}
+          {activeTab === 'rejudge' && renderRejudge()}
         </div>
       </div>
     </div>
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import Navigation from '../components/Navigation';
 import Leaderboard from '../components/Leaderboard';
+import ContestCountdown from '../components/ContestCountdown';
+import VerdictBadge, { Verdict } from '../components/VerdictBadge';
 import { supabase } from '../services/supabase'; // Only for auth
 import { secureApi } from '../services/secureApi';
 import './ContestDetail.css';
@@ -12,10 +14,16 @@ interface Contest {
   description: string;
   start_time: string;
   end_time: string | null;
+  window_minutes: number | null; // Set for windowed contests: each participant's personal time limit
   is_active: boolean;
   created_at: string;
 }
 
+interface Participation {
+  id: string;
+  window_started_at: string | null;
+}
+
 interface Problem {
   id: string;
   title: string;
@@ -31,15 +39,33 @@ interface ContestSubmission {
   user_id: string;
   score: number;
   total_tests: number;
+  total_points: number | null;
+  verdict: Verdict | null;
   submitted_at: string;
 }
 
+// The user's phase; windowed contests add the time before and after their personal window
+const formatWindow = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} minutes`;
+  if (rest === 0) return hours === 1 ? '1 hour' : `${hours} hours`;
+  return `${hours}h ${rest}m`;
+};
+
+type ContestPhase = 'upcoming' | 'running' | 'ended' | 'window-not-started' | 'window-ended';
+
 const ContestDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [contest, setContest] = useState<Contest | null>(null);
   const [problems, setProblems] = useState<Problem[]>([]);
   const [submissions, setSubmissions] = useState<ContestSubmission[]>([]);
   const [testCases, setTestCases] = useState<any[]>([]);
+  const [phase, setPhase] = useState<ContestPhase>('running');
+  const [serverOffsetMs, setServerOffsetMs] = useState(0);
+  const [participation, setParticipation] = useState<Participation | null>(null);
+  const [windowEndsAt, setWindowEndsAt] = useState<string | null>(null);
+  const [startingWindow, setStartingWindow] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -64,6 +90,10 @@ const ContestDetail: React.FC = () => {
       
       if (result.success && result.data) {
         setContest(result.data.contest);
+        setPhase(result.data.phase);
+        setParticipation(result.data.participation);
+        setWindowEndsAt(result.data.window_ends_at);
+        setServerOffsetMs(new Date(result.data.server_time).getTime() - Date.now());
         setProblems(result.data.problems || []);
         setSubmissions(result.data.submissions || []);
         // Note: Test cases are not included in the response for security reasons
@@ -79,6 +109,20 @@ const ContestDetail: React.FC = () => {
     }
   };
 
+  const startWindow = async () => {
+    if (!contest || !window.confirm(`Start your window now? You'll have ${formatWindow(contest.window_minutes!)} and the timer can't be paused.`)) {
+      return;
+    }
+
+    setStartingWindow(true);
+    const result = await secureApi.startContestWindow(contest.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to start your window');
+    }
+    await fetchContestData();
+    setStartingWindow(false);
+  };
+
   const getSubmissionForProblem = (problemId: string) => {
     return submissions.find(s => s.problem_id === problemId);
   };
@@ -151,6 +195,23 @@ const ContestDetail: React.FC = () => {
               </div>
             </div>
           </div>
+          {participation?.window_started_at && windowEndsAt ? (
+            <ContestCountdown
+              startTime={participation.window_started_at}
+              endTime={windowEndsAt}
+              serverOffsetMs={serverOffsetMs}
+              onPhaseChange={fetchContestData}
+              endLabel="Your window ends in"
+              endedLabel="Your window has ended"
+            />
+          ) : (
+            <ContestCountdown
+              startTime={contest.start_time}
+              endTime={contest.end_time}
+              serverOffsetMs={serverOffsetMs}
+              onPhaseChange={fetchContestData}
+            />
+          )}
         </div>
 
         <div className="contest-info card">
@@ -159,14 +220,22 @@ const ContestDetail: React.FC = () => {
             <div className="meta-item">
               <span className="meta-icon">📅</span>
               <span className="meta-text">
-                Started: {new Date(contest.start_time).toLocaleDateString()}
+                {phase === 'upcoming' ? 'Starts' : 'Started'}: {new Date(contest.start_time).toLocaleString()}
               </span>
             </div>
+            {contest.window_minutes && (
+              <div className="meta-item">
+                <span className="meta-icon">⏱️</span>
+                <span className="meta-text">
+                  Personal window: {formatWindow(contest.window_minutes)}
+                </span>
+              </div>
+            )}
             {contest.end_time && (
               <div className="meta-item">
                 <span className="meta-icon">⏰</span>
                 <span className="meta-text">
-                  Ends: {new Date(contest.end_time).toLocaleDateString()}
+                  {phase === 'ended' ? 'Ended' : 'Ends'}: {new Date(contest.end_time).toLocaleString()}
                 </span>
               </div>
             )}
@@ -178,7 +247,33 @@ const ContestDetail: React.FC = () => {
           <Leaderboard contestId={contest.id} />
         </div>
 
-        {problems.length === 0 ? (
+        {phase === 'upcoming' ? (
+          <div className="empty-state">
+            <div className="empty-icon">⏳</div>
+            <h3 className="empty-title">Contest Not Started</h3>
+            <p className="empty-description">
+              The problems will appear here as soon as the contest starts.
+            </p>
+          </div>
+        ) : phase === 'window-not-started' ? (
+          <div className="empty-state">
+            <div className="empty-icon">⏱️</div>
+            <h3 className="empty-title">Start When You're Ready</h3>
+            <p className="empty-description">
+              You get {formatWindow(contest.window_minutes!)} from the moment you start
+              {contest.end_time ? ', or until the contest ends if that comes first' : ''}.
+              The problems appear once your window starts.
+            </p>
+            <button
+              onClick={startWindow}
+              disabled={startingWindow}
+              className={`btn btn-primary ${startingWindow ? 'loading' : ''}`}
+            >
+              <span>{startingWindow ? 'Starting...' : 'Start'}</span>
+              <span>▶️</span>
+            </button>
+          </div>
+        ) : problems.length === 0 ? (
           <div className="empty-state">
             <div className="empty-icon">📝</div>
             <h3 className="empty-title">No Problems Yet</h3>
@@ -199,7 +294,8 @@ const ContestDetail: React.FC = () => {
               {problems.map((problem, index) => {
                 const submission = getSubmissionForProblem(problem.id);
                 const problemTestCases = testCases.filter(tc => tc.problem_id === problem.id);
-                const isSolved = submission && submission.score === submission.total_tests && submission.total_tests > 0;
+                const totalPoints = submission ? submission.total_points ?? submission.total_tests : 0;
+                const isSolved = submission && submission.score >= totalPoints && totalPoints > 0;
                 
                 return (
                   <div 
@@ -220,8 +316,9 @@ const ContestDetail: React.FC = () => {
                           <span className="badge-icon">💻</span>
                         )}
                         <span className="badge-text">
-                          {submission ? `${submission.score}/${submission.total_tests}` : `0/${problemTestCases.length}`}
+                          {submission ? `${submission.score}/${totalPoints}` : `0/${problemTestCases.length}`}
                         </span>
+                        {submission?.verdict && <VerdictBadge verdict={submission.verdict} />}
                       </div>
                     </div>
 
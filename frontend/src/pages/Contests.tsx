@@ -11,6 +11,7 @@ interface Contest {
   description: string;
   start_time: string;
   end_time: string | null;
+  window_minutes: number | null;
   is_active: boolean;
   created_at: string;
 }
@@ -97,7 +98,8 @@ const Contests: React.FC = () => {
 
   const getContestStatus = (contest: Contest) => {
     if (!contest.is_active) return 'Inactive';
-    if (contest.end_time && new Date(contest.end_time) < new Date()) return 'Ended';
+    if (new Date(contest.start_time) > new Date()) return 'Upcoming';
+    if (contest.end_time && new Date(contest.end_time) <= new Date()) return 'Ended';
     return 'Active';
   };
 
@@ -159,14 +161,22 @@ const Contests: React.FC = () => {
                   <div className="meta-item">
                     <span className="meta-icon">📅</span>
                     <span className="meta-text">
-                      Started: {new Date(contest.start_time).toLocaleDateString()}
+                      {getContestStatus(contest) === 'Upcoming' ? 'Starts' : 'Started'}: {new Date(contest.start_time).toLocaleString()}
                     </span>
                   </div>
                   {contest.end_time && (
                     <div className="meta-item">
                       <span className="meta-icon">⏰</span>
                       <span className="meta-text">
-                        Ends: {new Date(contest.end_time).toLocaleDateString()}
+                        {getContestStatus(contest) === 'Ended' ? 'Ended' : 'Ends'}: {new Date(contest.end_time).toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                  {contest.window_minutes && (
+                    <div className="meta-item">
+                      <span className="meta-icon">⏱️</span>
+                      <span className="meta-text">
+                        {contest.window_minutes}-minute window, started whenever you like
                       </span>
                     </div>
                   )}
@@ -181,6 +191,10 @@ const Contests: React.FC = () => {
                       <span>View Contest</span>
                       <span>→</span>
                     </Link>
+                  ) : getContestStatus(contest) === 'Ended' ? (
+                    <button className="btn btn-secondary" disabled>
+                      <span>Contest Ended</span>
+                    </button>
                   ) : (
                     <button
                       onClick={() => joinContest(contest.id)}
@@ -1,35 +1,116 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useSearchParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import Navigation from '../components/Navigation';
 import { secureApi } from '../services/secureApi';
-import { supabase } from '../services/supabase'; // Only for auth
 import MarkdownRenderer from '../components/MarkdownRenderer';
+import SubmissionResults, { Submission, SubmissionStatus, TestResult } from '../components/SubmissionResults';
+import VerdictBadge, { Verdict } from '../components/VerdictBadge';
+import CodeEditor, { getCodeTemplate } from '../components/CodeEditor';
+import { loadLocalDraft, saveLocalDraft, isDraftSyncEnabled, setDraftSyncEnabled } from '../services/drafts';
 import './ProblemDetail.css';
 
+interface SampleTestCase {
+  input: string;
+  expected_output: string;
+}
+
 interface Problem {
   id: string;
   title: string;
   description: string;
   contest_id: string | null;
+  time_limit_ms: number;
+  memory_limit_mb: number;
   created_at: string;
+  samples: SampleTestCase[];
 }
 
-interface TestResult {
-  testCaseId: string;
-  passed: boolean;
-  actualOutput?: string;
-  expectedOutput?: string;
-  input?: string;
-  error?: string;
+type SubmissionEvent =
+  | { type: 'snapshot'; submission: Submission }
+  | { type: 'status'; status: SubmissionStatus }
+  | { type: 'test-start'; index: number }
+  | { type: 'test-result'; index: number; result: TestResult }
+  | { type: 'done'; submission: Partial<Submission> };
+
+const applySubmissionEvent = (current: Submission | null, event: SubmissionEvent): Submission | null => {
+  if (event.type === 'snapshot') {
+    return event.submission;
+  }
+  if (!current) {
+    return current;
+  }
+
+  switch (event.type) {
+    case 'status':
+      return { ...current, status: event.status };
+    case 'test-start':
+      return { ...current, runningTest: event.index };
+    case 'test-result': {
+      const results = [...current.results];
+      results[event.index] = event.result;
+      return { ...current, results, runningTest: undefined };
+    }
+    case 'done':
+      return { ...current, ...event.submission, runningTest: undefined };
+    default:
+      return current;
+  }
+};
+
+interface RunResult {
+  compileError?: string;
+  verdict: Verdict | null;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  wallTimeMs?: number;
+  cpuTimeMs?: number;
+  memoryKb?: number;
 }
 
-interface JudgeResponse {
-  score: string;
-  passedTests: number;
-  totalTests: number;
-  results: TestResult[];
+interface Language {
+  id: string;
+  name: string;
+  version: string;
+  extension: string;
+  time_multiplier: number;
+  memory_multiplier: number;
 }
 
+const POLL_INTERVAL_MS = 1000;
+const DRAFT_SYNC_DELAY_MS = 2000;
+
+const getStatusLabel = (submission: Submission | null) => {
+  switch (submission?.status) {
+    case 'QUEUED':
+      return 'Waiting in queue...';
+    case 'COMPILING':
+      return 'Compiling...';
+    case 'RUNNING':
+      return `Running test ${Math.min(submission.results.length + 1, submission.total_tests)} of ${submission.total_tests}...`;
+    default:
+      return 'Submitting...';
+  }
+};
+
+const formatTimeLimit = (timeLimitMs: number) => {
+  return timeLimitMs >= 1000 ? `${+(timeLimitMs / 1000).toFixed(2)} s` : `${Math.round(timeLimitMs)} ms`;
+};
+
+const syncDraft = async (problemId: string, languageId: string, source: string) => {
+  const result = await secureApi.saveDraft(problemId, languageId, source);
+  if (!result.success) {
+    console.error('Error syncing draft:', result.error);
+    return;
+  }
+
+  // Take the server's timestamp so neither copy looks newer than the other next time
+  if (loadLocalDraft(problemId, languageId)?.source === source) {
+    saveLocalDraft(problemId, languageId, { source, updatedAt: result.data.updated_at });
+  }
+};
+
 const ProblemDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [searchParams] = useSearchParams();
@@ -39,8 +120,30 @@ const ProblemDetail: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [judgeResult, setJudgeResult] = useState<JudgeResponse | null>(null);
+  const [sourceMode, setSourceMode] = useState<'editor' | 'file'>('editor');
+  const [code, setCode] = useState('');
+  const [syncDrafts, setSyncDrafts] = useState(isDraftSyncEnabled);
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [selectedLanguageId, setSelectedLanguageId] = useState('python3');
+  const [submission, setSubmission] = useState<Submission | null>(null);
   const [error, setError] = useState('');
+  const [copiedSample, setCopiedSample] = useState<string | null>(null);
+  const [runInput, setRunInput] = useState('');
+  const [running, setRunning] = useState(false);
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [runError, setRunError] = useState('');
+  const mountedRef = useRef(true);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const draftKeyRef = useRef('');
+  const draftSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      streamAbortRef.current?.abort();
+    };
+  }, []);
 
   useEffect(() => {
     if (id) {
@@ -48,6 +151,90 @@ const ProblemDetail: React.FC = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    fetchLanguages();
+  }, []);
+
+  // Open the saved draft for this problem and language, or the language's template.
+  // With sync on, a newer draft from the user's account replaces the local one, and a newer local one is uploaded.
+  const loadDraft = useCallback(async (problemId: string, languageId: string) => {
+    const key = `${problemId}:${languageId}`;
+    draftKeyRef.current = key;
+    const localDraft = loadLocalDraft(problemId, languageId);
+    setCode(localDraft?.source ?? getCodeTemplate(languageId));
+
+    if (!syncDrafts) return;
+
+    const result = await secureApi.getDraft(problemId, languageId);
+    if (!mountedRef.current || draftKeyRef.current !== key || !result.success) return;
+
+    const serverDraft = result.data;
+    const localTime = localDraft ? new Date(localDraft.updatedAt).getTime() : 0;
+    if (serverDraft && new Date(serverDraft.updated_at).getTime() > localTime) {
+      setCode(serverDraft.source);
+      saveLocalDraft(problemId, languageId, { source: serverDraft.source, updatedAt: serverDraft.updated_at });
+    } else if (localDraft && (!serverDraft || localTime > new Date(serverDraft.updated_at).getTime())) {
+      syncDraft(problemId, languageId, localDraft.source);
+    }
+  }, [syncDrafts]);
+
+  useEffect(() => {
+    if (id) {
+      loadDraft(id, selectedLanguageId);
+    }
+  }, [id, selectedLanguageId, loadDraft]);
+
+  const fetchLanguages = async () => {
+    const result = await secureApi.getLanguages();
+    if (result.success) {
+      setLanguages(result.data || []);
+    } else {
+      console.error('Error fetching languages:', result.error);
+    }
+  };
+
+  // Every edit is saved locally right away; syncing waits until typing pauses
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    if (!id) return;
+
+    const languageId = selectedLanguageId;
+    saveLocalDraft(id, languageId, { source: value, updatedAt: new Date().toISOString() });
+
+    if (syncDrafts) {
+      if (draftSyncTimerRef.current) {
+        clearTimeout(draftSyncTimerRef.current);
+      }
+      draftSyncTimerRef.current = setTimeout(() => syncDraft(id, languageId, value), DRAFT_SYNC_DELAY_MS);
+    }
+  };
+
+  const handleSyncDraftsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSyncDrafts(e.target.checked);
+    setDraftSyncEnabled(e.target.checked);
+  };
+
+  const handleResetCode = () => {
+    if (!window.confirm('Replace your code with the starting template? Your current draft will be lost.')) {
+      return;
+    }
+    handleCodeChange(getCodeTemplate(selectedLanguageId));
+  };
+
+  const copySample = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedSample(key);
+      setTimeout(() => setCopiedSample(current => (current === key ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying sample:', error);
+    }
+  };
+
+  const selectedLanguage = languages.find(language => language.id === selectedLanguageId);
+  const selectedExtension = selectedLanguage?.extension || '.py';
+  const hasSource = sourceMode === 'editor' ? code.trim() !== '' : selectedFile !== null;
+
   const fetchProblem = async () => {
     try {
       const result = await secureApi.getProblem(id!);
@@ -66,69 +253,124 @@ const ProblemDetail: React.FC = () => {
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.name.endsWith('.py')) {
+    if (file && file.name.toLowerCase().endsWith(selectedExtension)) {
       setSelectedFile(file);
       setError('');
     } else {
-      setError('Please select a valid Python file (.py)');
+      setError(`Please select a valid ${selectedLanguage?.name || 'Python'} file (${selectedExtension})`);
       setSelectedFile(null);
     }
   };
 
-  const saveContestSubmission = async (result: JudgeResponse) => {
-    if (!contestId || !problem) return;
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const language = languages.find(l => l.id === e.target.value);
+    setSelectedLanguageId(e.target.value);
+    // Drop a previously chosen file that no longer matches the language
+    if (selectedFile && language && !selectedFile.name.toLowerCase().endsWith(language.extension)) {
+      setSelectedFile(null);
+    }
+  };
 
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Save submission using backend API
-      const submissionResult = await secureApi.saveContestSubmission({
-        contest_id: contestId,
-        problem_id: problem.id,
-        score: result.passedTests,
-        total_tests: result.totalTests
-      });
+  // Poll the queued submission until the judge is done with it
+  const pollSubmission = async (submissionId: string): Promise<Submission | null> => {
+    while (mountedRef.current) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
 
-      if (!submissionResult.success) {
-        console.error('Error saving contest submission:', submissionResult.error);
+      const result = await secureApi.getSubmission(submissionId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      if (!mountedRef.current) break;
+      setSubmission(result.data);
+      if (result.data.status === 'DONE') {
+        return result.data;
       }
-    } catch (error) {
-      console.error('Error saving contest submission:', error);
     }
+    return null;
+  };
+
+  // Follow the submission's live progress stream, falling back to polling if the stream is unavailable
+  const watchSubmission = async (submissionId: string): Promise<Submission | null> => {
+    const live = { submission: null as Submission | null };
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+
+    await secureApi.streamSubmission(submissionId, (event: SubmissionEvent) => {
+      live.submission = applySubmissionEvent(live.submission, event);
+      if (mountedRef.current) {
+        setSubmission(live.submission);
+      }
+    }, abortController.signal);
+
+    if (live.submission?.status === 'DONE') {
+      return live.submission;
+    }
+    return pollSubmission(submissionId);
   };
 
   const handleSubmit = async () => {
-    if (!selectedFile || !problem) return;
+    if (!hasSource || !problem) return;
 
     setSubmitting(true);
+    setSubmission(null);
     setError('');
 
     try {
       const formData = new FormData();
-      formData.append('code', selectedFile);
+      if (sourceMode === 'editor') {
+        formData.append('source', code);
+      } else {
+        formData.append('code', selectedFile!);
+      }
       formData.append('problemId', problem.id);
+      formData.append('language', selectedLanguageId);
 
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}/judge`, {
-        method: 'POST',
-        body: formData,
-      });
+      const submitResult = await secureApi.submitSolution(formData);
+      if (!submitResult.success) {
+        setError(submitResult.error || 'Failed to submit solution. Please try again.');
+        return;
+      }
 
-      if (!response.ok) {
-        throw new Error('Failed to submit solution');
+      // Contest results are recorded by the judge itself once the submission finishes
+      await watchSubmission(submitResult.data.submissionId);
+    } catch (error) {
+      setError('Failed to submit solution. Please try again.');
+    } finally {
+      if (mountedRef.current) {
+        setSubmitting(false);
       }
+    }
+  };
+
+  // Run the current code on the custom input; the result is only shown here, never recorded
+  const handleRun = async () => {
+    if (!hasSource || !problem) return;
 
-      const result = await response.json();
-      setJudgeResult(result);
+    setRunning(true);
+    setRunResult(null);
+    setRunError('');
+
+    try {
+      const result = await secureApi.runCode({
+        problemId: problem.id,
+        language: selectedLanguageId,
+        source: sourceMode === 'editor' ? code : await selectedFile!.text(),
+        input: runInput
+      });
 
-      // Save contest submission if this is a contest problem
-      if (contestId) {
-        await saveContestSubmission(result);
+      if (!mountedRef.current) return;
+      if (result.success) {
+        setRunResult(result.data);
+      } else {
+        setRunError(result.error || 'Failed to run code. Please try again.');
       }
     } catch (error) {
-      setError('Failed to submit solution. Please try again.');
+      setRunError('Failed to run code. Please try again.');
     } finally {
-      setSubmitting(false);
+      if (mountedRef.current) {
+        setRunning(false);
+      }
     }
   };
 
@@ -186,47 +428,143 @@ const ProblemDetail: React.FC = () => {
         <div className="problem-section card">
           <div className="section-header">
             <h2 className="section-title">Problem Description</h2>
+            <div className="problem-limits">
+              <span className="limit-item">
+                <span className="limit-label">Time Limit</span>
+                <span className="limit-value">
+                  {formatTimeLimit(problem.time_limit_ms * (selectedLanguage?.time_multiplier || 1))}
+                </span>
+              </span>
+              <span className="limit-item">
+                <span className="limit-label">Memory Limit</span>
+                <span className="limit-value">
+                  {Math.round(problem.memory_limit_mb * (selectedLanguage?.memory_multiplier || 1))} MB
+                </span>
+              </span>
+              {selectedLanguage && (selectedLanguage.time_multiplier !== 1 || selectedLanguage.memory_multiplier !== 1) && (
+                <span className="limit-note">Adjusted for {selectedLanguage.name}</span>
+              )}
+            </div>
           </div>
           <div className="problem-description">
             <MarkdownRenderer content={problem.description} />
           </div>
+
+          {problem.samples?.length > 0 && (
+            <div className="problem-samples">
+              {problem.samples.map((sample, index) => (
+                <div key={index} className="problem-sample">
+                  {[
+                    { key: `input-${index}`, label: `Sample Input ${index + 1}`, text: sample.input },
+                    { key: `output-${index}`, label: `Sample Output ${index + 1}`, text: sample.expected_output }
+                  ].map(block => (
+                    <div key={block.key} className="sample-block">
+                      <div className="sample-header">
+                        <span className="sample-label">{block.label}</span>
+                        <button
+                          type="button"
+                          className="sample-copy"
+                          onClick={() => copySample(block.key, block.text)}
+                        >
+                          {copiedSample === block.key ? 'Copied!' : 'Copy'}
+                        </button>
+                      </div>
+                      <pre className="sample-content">{block.text}</pre>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         <div className="submission-section card">
           <div className="section-header">
             <h2 className="section-title">Submit Your Solution</h2>
             <p className="section-subtitle">
-              Upload your Python code file to test your solution against our test cases
+              Write your solution in the editor or upload a code file to test it against our test cases
             </p>
+            <Link to={`/submissions?problem=${problem.id}`} className="past-submissions-link">
+              View your past submissions →
+            </Link>
           </div>
           
           <div className="file-upload">
-            <div className="file-input-wrapper">
-              <input
-                type="file"
-                accept=".py"
-                onChange={handleFileChange}
-                className="file-input"
-                id="code-file"
-              />
-              <label htmlFor="code-file" className="file-label">
-                <span className="file-icon">📁</span>
-                <span className="file-text">
-                  {selectedFile ? selectedFile.name : 'Choose Python file (.py)'}
-                </span>
-                <span className="file-button">Browse</span>
-              </label>
+            <div className="language-picker">
+              <label htmlFor="language-select" className="language-label">Language</label>
+              <select
+                id="language-select"
+                value={selectedLanguageId}
+                onChange={handleLanguageChange}
+                className="language-select"
+              >
+                {languages.length === 0 && <option value="python3">Python 3</option>}
+                {languages.map(language => (
+                  <option key={language.id} value={language.id}>
+                    {language.name} — {language.version}
+                  </option>
+                ))}
+              </select>
+              <div className="source-tabs">
+                <button
+                  type="button"
+                  className={`source-tab ${sourceMode === 'editor' ? 'active' : ''}`}
+                  onClick={() => setSourceMode('editor')}
+                >
+                  Editor
+                </button>
+                <button
+                  type="button"
+                  className={`source-tab ${sourceMode === 'file' ? 'active' : ''}`}
+                  onClick={() => setSourceMode('file')}
+                >
+                  Upload File
+                </button>
+              </div>
             </div>
+
+            {sourceMode === 'editor' ? (
+              <div className="editor-wrapper">
+                <CodeEditor id="code-editor" value={code} onChange={handleCodeChange} languageId={selectedLanguageId} />
+                <div className="editor-toolbar">
+                  <label className="editor-sync">
+                    <input type="checkbox" checked={syncDrafts} onChange={handleSyncDraftsChange} />
+                    <span>Sync drafts to my account</span>
+                  </label>
+                  <span className="editor-note">Drafts are saved automatically</span>
+                  <button type="button" className="sample-copy" onClick={handleResetCode}>
+                    Reset to template
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="file-input-wrapper">
+                <input
+                  type="file"
+                  accept={selectedExtension}
+                  onChange={handleFileChange}
+                  className="file-input"
+                  id="code-file"
+                />
+                <label htmlFor="code-file" className="file-label">
+                  <span className="file-icon">📁</span>
+                  <span className="file-text">
+                    {selectedFile ? selectedFile.name : `Choose ${selectedLanguage?.name || 'Python'} file (${selectedExtension})`}
+                  </span>
+                  <span className="file-button">Browse</span>
+                </label>
+              </div>
+            )}
             
             <button
               onClick={handleSubmit}
-              disabled={!selectedFile || submitting}
+              disabled={!hasSource || submitting}
               className={`btn btn-primary submit-btn ${submitting ? 'loading' : ''}`}
             >
               {submitting ? (
                 <>
                   <div className="spinner"></div>
-                  <span>Submitting...</span>
+                  <span>{getStatusLabel(submission)}</span>
                 </>
               ) : (
                 <>
@@ -245,63 +583,98 @@ const ProblemDetail: React.FC = () => {
           )}
         </div>
 
-        {judgeResult && (
+        <div className="run-section card">
+          <div className="section-header">
+            <h2 className="section-title">Run with Custom Input</h2>
+            <p className="section-subtitle">
+              Try your code on your own input before submitting. Runs are not recorded.
+            </p>
+          </div>
+
+          <div className="run-panel">
+            <div className="run-column">
+              <div className="run-column-header">
+                <label htmlFor="run-input" className="run-label">Input</label>
+                {problem.samples?.length > 0 && (
+                  <button type="button" className="sample-copy" onClick={() => setRunInput(problem.samples[0].input)}>
+                    Use sample input
+                  </button>
+                )}
+              </div>
+              <textarea
+                id="run-input"
+                value={runInput}
+                onChange={(e) => setRunInput(e.target.value)}
+                className="run-textarea"
+                placeholder="Enter input for your program"
+                rows={8}
+              />
+            </div>
+
+            <div className="run-column">
+              <div className="run-column-header">
+                <span className="run-label">Output</span>
+                {runResult && (
+                  <span className="run-summary">
+                    {runResult.verdict ? (
+                      <VerdictBadge verdict={runResult.verdict} showName />
+                    ) : (
+                      <span>Exit code {runResult.exitCode}</span>
+                    )}
+                    {(runResult.cpuTimeMs ?? runResult.wallTimeMs) !== undefined && (
+                      <span>{runResult.cpuTimeMs ?? runResult.wallTimeMs} ms</span>
+                    )}
+                    {runResult.memoryKb !== undefined && (
+                      <span>{(runResult.memoryKb / 1024).toFixed(1)} MB</span>
+                    )}
+                  </span>
+                )}
+              </div>
+              <pre className="run-output">
+                {runResult ? (runResult.compileError ?? runResult.stdout) : running ? 'Running...' : ''}
+              </pre>
+              {runResult?.stderr && (
+                <>
+                  <span className="run-label">Standard Error</span>
+                  <pre className="run-output run-stderr">{runResult.stderr}</pre>
+                </>
+              )}
+            </div>
+          </div>
+
+          <button
+            onClick={handleRun}
+            disabled={!hasSource || running}
+            className={`btn btn-secondary submit-btn ${running ? 'loading' : ''}`}
+          >
+            {running ? (
+              <>
+                <div className="spinner"></div>
+                <span>Running...</span>
+              </>
+            ) : (
+              <>
+                <span>Run</span>
+                <span>▶️</span>
+              </>
+            )}
+          </button>
+
+          {runError && (
+            <div className="error-message">
+              <span className="error-icon">⚠️</span>
+              <span className="error-text">{runError}</span>
+            </div>
+          )}
+        </div>
+
+        {submission && (submission.status === 'DONE' || submission.results.length > 0 || submission.runningTest !== undefined) && (
           <div className="results-section card">
             <div className="section-header">
               <h2 className="section-title">Test Results</h2>
             </div>
             
-            <div className="score-display">
-              <div className="score-item">
-                <span className="score-label">Score</span>
-                <span className="score-value">{judgeResult.score}</span>
-              </div>
-              <div className="score-item">
-                <span className="score-label">Test Cases</span>
-                <span className="score-value">
-                  {judgeResult.passedTests}/{judgeResult.totalTests} passed
-                </span>
-              </div>
-            </div>
-            
-            <div className="test-results">
-              {judgeResult.results.map((result, index) => (
-                <div 
-                  key={index} 
-                  className={`test-result ${result.passed ? 'passed' : 'failed'}`}
-                >
-                  <div className="test-header">
-                    <span className="test-number">Test Case {index + 1}</span>
-                    <span className={`test-status ${result.passed ? 'passed' : 'failed'}`}>
-                      {result.passed ? '✅ PASSED' : '❌ FAILED'}
-                    </span>
-                  </div>
-                  
-                  {!result.passed && (
-                    <div className="test-details">
-                      <div className="detail-item">
-                        <span className="detail-label">Input:</span>
-                        <code className="detail-value">{result.input}</code>
-                      </div>
-                      <div className="detail-item">
-                        <span className="detail-label">Expected:</span>
-                        <code className="detail-value">{result.expectedOutput}</code>
-                      </div>
-                      <div className="detail-item">
-                        <span className="detail-label">Actual:</span>
-                        <code className="detail-value">{result.actualOutput}</code>
-                      </div>
-                      {result.error && (
-                        <div className="detail-item">
-                          <span className="detail-label">Error:</span>
-                          <code className="detail-value error">{result.error}</code>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+            <SubmissionResults submission={submission} />
           </div>
         )}
       </div>
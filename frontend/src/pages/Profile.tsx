@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Navigation from '../components/Navigation';
+import RatingBadge from '../components/RatingBadge';
+import RatingGraph, { RatingHistoryEntry } from '../components/RatingGraph';
 import { secureApi } from '../services/secureApi';
 import './Profile.css';
 
@@ -11,6 +13,8 @@ interface UserProfile {
 
 const Profile: React.FC = () => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [ratingHistory, setRatingHistory] = useState<RatingHistoryEntry[]>([]);
   const [newUsername, setNewUsername] = useState('');
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
@@ -21,6 +25,21 @@ const Profile: React.FC = () => {
     fetchProfile();
   }, []);
 
+  // Rating history is looked up by username, so it follows a rename
+  const username = profile?.username;
+  useEffect(() => {
+    if (!username) return;
+
+    secureApi.getRatingHistory(username).then(result => {
+      if (result.success && result.data) {
+        setRating(result.data.rating);
+        setRatingHistory(result.data.history);
+      } else {
+        console.error('Error fetching rating history:', result.error);
+      }
+    });
+  }, [username]);
+
   const fetchProfile = async () => {
     try {
       const result = await secureApi.getUserProfile();
@@ -163,6 +182,16 @@ const Profile: React.FC = () => {
                 </span>
               </div>
             </div>
+
+            <div className="info-item">
+              <div className="info-icon">📈</div>
+              <div className="info-content">
+                <label className="info-label">Rating</label>
+                <span className="info-value">
+                  {rating !== null ? <RatingBadge rating={rating} showTitle /> : 'Unrated'}
+                </span>
+              </div>
+            </div>
           </div>
 
           {newUsername !== profile.username && (
@@ -226,6 +255,32 @@ const Profile: React.FC = () => {
             </div>
           )}
         </div>
+
+        {ratingHistory.length > 0 && (
+          <div className="profile-section card rating-section">
+            <div className="section-header">
+              <h2 className="section-title">Rating History</h2>
+            </div>
+
+            <RatingGraph history={ratingHistory} />
+
+            <ul className="rating-history">
+              {[...ratingHistory].reverse().map(entry => {
+                const delta = entry.new_rating - entry.old_rating;
+                return (
+                  <li key={entry.contest_id} className="rating-history-item">
+                    <span className="rating-history-contest">{entry.contest_title}</span>
+                    <span className="rating-history-rank">Rank {entry.rank}</span>
+                    <span className={delta >= 0 ? 'rating-delta-up' : 'rating-delta-down'}>
+                      {delta >= 0 ? '+' : ''}{delta}
+                    </span>
+                    <RatingBadge rating={entry.new_rating} />
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
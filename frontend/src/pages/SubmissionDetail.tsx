@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import SubmissionResults, { Submission } from '../components/SubmissionResults';
+import { secureApi } from '../services/secureApi';
+import './Submissions.css';
+
+interface StoredSubmission extends Submission {
+  problem_id: string;
+  problem_title: string;
+  contest_id: string | null;
+  language: string;
+  source_code: string | null;
+  created_at: string;
+}
+
+interface Language {
+  id: string;
+  name: string;
+  version: string;
+}
+
+const SubmissionDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [submission, setSubmission] = useState<StoredSubmission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [error, setError] = useState('');
+
+  const fetchSubmission = useCallback(async () => {
+    try {
+      const result = await secureApi.getSubmission(id!);
+
+      if (result.success) {
+        setSubmission(result.data);
+      } else {
+        setError(result.error || 'Submission not found');
+      }
+    } catch (error) {
+      setError('Failed to load submission');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchSubmission();
+    }
+  }, [id, fetchSubmission]);
+
+  useEffect(() => {
+    fetchLanguages();
+  }, []);
+
+  const fetchLanguages = async () => {
+    const result = await secureApi.getLanguages();
+    if (result.success) {
+      setLanguages(result.data || []);
+    } else {
+      console.error('Error fetching languages:', result.error);
+    }
+  };
+
+  const language = languages.find(l => l.id === submission?.language);
+
+  if (loading) {
+    return (
+      <div className="submissions-page">
+        <Navigation />
+        <div className="page-container">
+          <div className="loading-container">
+            <div className="loading-spinner">
+              <div className="spinner-ring"></div>
+              <div className="spinner-ring"></div>
+              <div className="spinner-ring"></div>
+            </div>
+            <p className="loading-text">Loading submission...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !submission) {
+    return (
+      <div className="submissions-page">
+        <Navigation />
+        <div className="page-container">
+          <div className="submissions-empty card">
+            <div className="empty-icon">⚠️</div>
+            <h3 className="empty-title">Error Loading Submission</h3>
+            <p className="empty-description">{error}</p>
+            <Link to="/submissions" className="btn btn-secondary">
+              <span>Back to My Submissions</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="submissions-page">
+      <Navigation />
+      <div className="page-container">
+        <div className="page-header">
+          <h1 className="page-title">{submission.problem_title}</h1>
+          <p className="page-subtitle">
+            <Link to="/submissions" className="submission-view">← Back to My Submissions</Link>
+          </p>
+        </div>
+
+        <div className="submission-detail-header">
+          <div className="submission-detail-item">
+            <span className="submission-detail-label">Submitted</span>
+            <span className="submission-detail-value">{new Date(submission.created_at).toLocaleString()}</span>
+          </div>
+          <div className="submission-detail-item">
+            <span className="submission-detail-label">Language</span>
+            <span className="submission-detail-value">
+              {language ? `${language.name} — ${language.version}` : submission.language}
+            </span>
+          </div>
+          <div className="submission-detail-item">
+            <span className="submission-detail-label">Status</span>
+            <span className="submission-detail-value submission-pending">{submission.status.toLowerCase()}</span>
+          </div>
+          <div className="submission-detail-item">
+            <span className="submission-detail-label">Problem</span>
+            <Link
+              to={`/problem/${submission.problem_id}${submission.contest_id ? `?contest=${submission.contest_id}` : ''}`}
+              className="submission-view"
+            >
+              Open problem →
+            </Link>
+          </div>
+        </div>
+
+        <div className="submission-detail-section card">
+          <h2 className="submission-detail-title">Source Code</h2>
+          {submission.source_code !== null ? (
+            <pre className="submission-source"><code>{submission.source_code}</code></pre>
+          ) : (
+            <p className="submission-time">Source code was not stored for this submission.</p>
+          )}
+        </div>
+
+        <div className="submission-detail-section card">
+          <h2 className="submission-detail-title">Test Results</h2>
+          <SubmissionResults submission={submission} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionDetail;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import Navigation from '../components/Navigation';
+import VerdictBadge, { Verdict, VERDICT_NAMES } from '../components/VerdictBadge';
+import { secureApi } from '../services/secureApi';
+import './Submissions.css';
+
+interface SubmissionSummary {
+  id: string;
+  problem_id: string;
+  problem_title: string;
+  contest_id: string | null;
+  language: string;
+  status: 'QUEUED' | 'COMPILING' | 'RUNNING' | 'DONE';
+  verdict: Verdict | null;
+  passed_tests: number | null;
+  total_tests: number;
+  points: number | null;
+  created_at: string;
+}
+
+interface Language {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 20;
+
+const Submissions: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const problemId = searchParams.get('problem') || undefined;
+
+  const [submissions, setSubmissions] = useState<SubmissionSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [verdictFilter, setVerdictFilter] = useState('');
+  const [languageFilter, setLanguageFilter] = useState('');
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchLanguages();
+  }, []);
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      const result = await secureApi.getUserSubmissions({
+        page,
+        pageSize: PAGE_SIZE,
+        problemId,
+        verdict: verdictFilter || undefined,
+        language: languageFilter || undefined
+      });
+
+      if (result.success) {
+        setSubmissions(result.data.submissions);
+        setTotal(result.data.total);
+        setError('');
+      } else {
+        setError(result.error || 'Failed to load submissions');
+      }
+    } catch (error) {
+      setError('Failed to load submissions');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, verdictFilter, languageFilter, problemId]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  const fetchLanguages = async () => {
+    const result = await secureApi.getLanguages();
+    if (result.success) {
+      setLanguages(result.data || []);
+    } else {
+      console.error('Error fetching languages:', result.error);
+    }
+  };
+
+  const handleVerdictChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setVerdictFilter(e.target.value);
+    setPage(1);
+  };
+
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setLanguageFilter(e.target.value);
+    setPage(1);
+  };
+
+  const getLanguageName = (languageId: string) => {
+    return languages.find(language => language.id === languageId)?.name || languageId;
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (loading) {
+    return (
+      <div className="submissions-page">
+        <Navigation />
+        <div className="page-container">
+          <div className="loading-container">
+            <div className="loading-spinner">
+              <div className="spinner-ring"></div>
+              <div className="spinner-ring"></div>
+              <div className="spinner-ring"></div>
+            </div>
+            <p className="loading-text">Loading submissions...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="submissions-page">
+      <Navigation />
+      <div className="page-container">
+        <div className="page-header">
+          <h1 className="page-title">My Submissions</h1>
+          <p className="page-subtitle">
+            Every solution you've submitted, with its code and judge results
+          </p>
+        </div>
+
+        <div className="submissions-filters">
+          <select value={verdictFilter} onChange={handleVerdictChange} className="form-input">
+            <option value="">All verdicts</option>
+            {(Object.keys(VERDICT_NAMES) as Verdict[]).map(verdict => (
+              <option key={verdict} value={verdict}>
+                {VERDICT_NAMES[verdict]}
+              </option>
+            ))}
+          </select>
+          <select value={languageFilter} onChange={handleLanguageChange} className="form-input">
+            <option value="">All languages</option>
+            {languages.map(language => (
+              <option key={language.id} value={language.id}>
+                {language.name}
+              </option>
+            ))}
+          </select>
+          {problemId && (
+            <Link to="/submissions" className="btn btn-secondary">
+              <span>Show all problems</span>
+            </Link>
+          )}
+          <span className="submissions-count">{total} submissions</span>
+        </div>
+
+        {error && (
+          <div className="submissions-error">
+            <span>⚠️</span>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {submissions.length === 0 ? (
+          <div className="submissions-empty card">
+            <div className="empty-icon">📝</div>
+            <h3 className="empty-title">No Submissions Found</h3>
+            <p className="empty-description">
+              Submissions you make on problems and in contests will show up here.
+            </p>
+            <Link to="/problems" className="btn btn-primary">
+              <span>Browse Problems</span>
+              <span>💻</span>
+            </Link>
+          </div>
+        ) : (
+          <div className="submissions-table-wrapper card">
+            <table className="submissions-table">
+              <thead>
+                <tr>
+                  <th>Submitted</th>
+                  <th>Problem</th>
+                  <th>Language</th>
+                  <th>Verdict</th>
+                  <th>Score</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {submissions.map(submission => (
+                  <tr key={submission.id}>
+                    <td className="submission-time">
+                      {new Date(submission.created_at).toLocaleString()}
+                    </td>
+                    <td>
+                      <Link
+                        to={`/problem/${submission.problem_id}${submission.contest_id ? `?contest=${submission.contest_id}` : ''}`}
+                        className="submission-problem"
+                      >
+                        {submission.problem_title}
+                      </Link>
+                    </td>
+                    <td>{getLanguageName(submission.language)}</td>
+                    <td>
+                      {submission.status === 'DONE' && submission.verdict ? (
+                        <VerdictBadge verdict={submission.verdict} />
+                      ) : (
+                        <span className="submission-pending">{submission.status.toLowerCase()}</span>
+                      )}
+                    </td>
+                    <td className="submission-score">
+                      {submission.points ?? 0}/{submission.total_tests}
+                    </td>
+                    <td>
+                      <Link to={`/submission/${submission.id}`} className="submission-view">
+                        View →
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="submissions-pagination">
+            <button
+              className="btn btn-secondary"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              ← Newer
+            </button>
+            <span className="pagination-text">Page {page} of {totalPages}</span>
+            <button
+              className="btn btn-secondary"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+            >
+              Older →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Submissions;
@@ -0,0 +1,36 @@
+// Editor drafts, saved in localStorage per problem and language.
+// Users can also sync drafts to their account, which keeps them across browsers.
+
+const DRAFT_KEY_PREFIX = 'wmoj-draft';
+const SYNC_SETTING_KEY = 'wmoj-sync-drafts';
+
+export interface Draft {
+  source: string;
+  updatedAt: string; // ISO timestamp, used to pick the newer of a local and a synced draft
+}
+
+const getDraftKey = (problemId: string, languageId: string) => `${DRAFT_KEY_PREFIX}:${problemId}:${languageId}`;
+
+export const loadLocalDraft = (problemId: string, languageId: string): Draft | null => {
+  try {
+    const stored = localStorage.getItem(getDraftKey(problemId, languageId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading draft:', error);
+    return null;
+  }
+};
+
+export const saveLocalDraft = (problemId: string, languageId: string, draft: Draft) => {
+  try {
+    localStorage.setItem(getDraftKey(problemId, languageId), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Error saving draft:', error);
+  }
+};
+
+export const isDraftSyncEnabled = () => localStorage.getItem(SYNC_SETTING_KEY) === 'true';
+
+export const setDraftSyncEnabled = (enabled: boolean) => {
+  localStorage.setItem(SYNC_SETTING_KEY, String(enabled));
+};
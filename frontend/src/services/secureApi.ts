@@ -6,6 +6,56 @@ export interface SecureApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  errors?: { file: string; message: string }[]; // Per-file problems when a problem package is rejected
+}
+
+// Access token of the current session; supabase-js refreshes it first when it is about to expire
+const getAccessToken = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+};
+
+// fetch() with the session's access token. If the backend still rejects the token (e.g. it expired
+// while the tab was asleep), the session is refreshed and the request retried once.
+// Resolves to null when nobody is signed in.
+const authorizedFetch = async (url: string, init: RequestInit = {}): Promise<Response | null> => {
+  const token = await getAccessToken();
+  if (!token) {
+    return null;
+  }
+
+  const send = (accessToken: string) => fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${accessToken}`,
+    }
+  });
+
+  const response = await send(token);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const { data: { session } } = await supabase.auth.refreshSession();
+  return session ? send(session.access_token) : response;
+};
+
+export interface SubmissionFilters {
+  page?: number;
+  pageSize?: number;
+  contestId?: string;
+  problemId?: string;
+  verdict?: string;
+  language?: string;
+}
+
+// A leaderboard page number, or 'me' for the page with the user's own entry
+export type LeaderboardPage = number | 'me';
+
+export interface LeaderboardSubscription {
+  close: () => void;
+  showPage: (page: LeaderboardPage) => void; // Switch pages; a new snapshot follows
 }
 
 export const secureApi = {
@@ -28,12 +78,15 @@ export const secureApi = {
 
   async getProblem(problemId: string): Promise<SecureApiResponse> {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/problems/${problemId}`, {
+      // Signed in, the backend can show problems of a windowed contest whose window the user started
+      const init: RequestInit = {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         }
-      });
+      };
+      const url = `${BACKEND_URL}/api/problems/${problemId}`;
+      const response = (await authorizedFetch(url, init)) ?? (await fetch(url, init));
 
       const result = await response.json();
       return result;
@@ -57,91 +110,321 @@ export const secureApi = {
       return { success: false, error: 'Failed to fetch contests' };
     }
   },
-  // Get user's own submissions only
-  async getUserSubmissions(contestId?: string): Promise<SecureApiResponse> {
+
+  async getRatingHistory(username: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await fetch(`${BACKEND_URL}/api/users/${encodeURIComponent(username)}/rating-history`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch rating history' };
+    }
+  },
+
+  async getLanguages(): Promise<SecureApiResponse> {
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/languages`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch languages' };
+    }
+  },
+
+  // Get a page of the user's own submissions, newest first
+  async getUserSubmissions(filters: SubmissionFilters = {}): Promise<SecureApiResponse> {
+    try {
+      const params = new URLSearchParams();
+      if (filters.page) params.append('page', String(filters.page));
+      if (filters.pageSize) params.append('pageSize', String(filters.pageSize));
+      if (filters.contestId) params.append('contestId', filters.contestId);
+      if (filters.problemId) params.append('problemId', filters.problemId);
+      if (filters.verdict) params.append('verdict', filters.verdict);
+      if (filters.language) params.append('language', filters.language);
+
+      const response = await authorizedFetch(`${BACKEND_URL}/api/submissions?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/submissions`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch submissions' };
+    }
+  },
+
+  // Get a single submission's judging status and results
+  async getSubmission(submissionId: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/submissions/${submissionId}`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
-        },
-        ...(contestId && { body: JSON.stringify({ contestId }) })
+        }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to fetch submissions' };
+      return { success: false, error: 'Failed to fetch submission' };
     }
   },
 
-  // Get contest data with proper access control
-  async getContestData(contestId: string): Promise<SecureApiResponse> {
+  // Stream live judging events (Server-Sent Events) for a submission; resolves once the stream closes.
+  // Uses fetch rather than EventSource so the request can carry the Authorization header.
+  async streamSubmission(
+    submissionId: string,
+    onEvent: (event: any) => void,
+    signal?: AbortSignal
+  ): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/submissions/${submissionId}/events`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'text/event-stream',
+        },
+        signal
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      if (!response.ok || !response.body) {
+        return { success: false, error: 'Failed to stream submission' };
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events end with a blank line; the data field carries the whole event including its type
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const data = buffer.slice(0, boundary)
+            .split('\n')
+            .filter(line => line.startsWith('data: '))
+            .map(line => line.slice(6))
+            .join('\n');
+          buffer = buffer.slice(boundary + 2);
+          if (data) {
+            onEvent(JSON.parse(data));
+          }
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: 'Failed to stream submission' };
+    }
+  },
+
+  // Queue a solution for judging; resolves with the new submission's ID
+  async submitSolution(formData: FormData): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/judge`, {
+        method: 'POST',
+        body: formData
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      // The judge endpoint responds without the usual success envelope
+      const result = await response.json();
+      if (!response.ok) {
+        return { success: false, error: result.error || 'Failed to submit solution' };
+      }
+      return { success: true, data: result };
+    } catch (error) {
+      return { success: false, error: 'Failed to submit solution' };
+    }
+  },
+
+  // Run code once on custom input; nothing is recorded as a submission
+  async runCode(run: { problemId?: string; language: string; source: string; input: string }): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/run`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(run)
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/contests/${contestId}`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to run code' };
+    }
+  },
+
+  // Get the user's synced editor draft for a problem; data is null when there is none
+  async getDraft(problemId: string, language: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/drafts/${problemId}?language=${encodeURIComponent(language)}`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to fetch contest data' };
+      return { success: false, error: 'Failed to fetch draft' };
     }
   },
 
-  // Get leaderboard data (filtered for user's access level)
-  async getLeaderboard(contestId: string): Promise<SecureApiResponse> {
+  async saveDraft(problemId: string, language: string, source: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/drafts/${problemId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ language, source })
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/contests/${contestId}/leaderboard`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to save draft' };
+    }
+  },
+
+  // Get contest data with proper access control
+  async getContestData(contestId: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/contests/${contestId}`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to fetch leaderboard' };
+      return { success: false, error: 'Failed to fetch contest data' };
     }
   },
 
-  // Admin-only operations
-  async adminGetContests(): Promise<SecureApiResponse> {
+  // Get one page of leaderboard data (filtered for user's access level); page 'me' is the page with
+  // the user's own entry. Admins get the live board unless they ask for the public one, which is
+  // frozen like everyone else's.
+  async getLeaderboard(contestId: string, publicView = false, page: LeaderboardPage = 1): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const query = new URLSearchParams({ page: String(page) });
+      if (publicView) {
+        query.set('view', 'public');
+      }
+      const response = await authorizedFetch(`${BACKEND_URL}/api/contests/${contestId}/leaderboard?${query}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/admin/contests`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch leaderboard' };
+    }
+  },
+
+  // Follow a page of a contest's leaderboard over WebSocket: a snapshot first, then deltas as results
+  // come in. Browsers can't set headers on WebSocket requests, so the token goes in the first message.
+  // Resolves to the subscription, or null when the browser has no WebSocket support or nobody is
+  // signed in; onClose fires when the connection drops.
+  async subscribeToLeaderboard(
+    contestId: string,
+    publicView: boolean,
+    page: LeaderboardPage,
+    onMessage: (message: any) => void,
+    onClose: () => void
+  ): Promise<LeaderboardSubscription | null> {
+    if (typeof WebSocket === 'undefined') {
+      return null;
+    }
+    const token = await getAccessToken();
+    if (!token) {
+      return null;
+    }
+
+    const socket = new WebSocket(`${BACKEND_URL.replace(/^http/, 'ws')}/api/contests/${contestId}/leaderboard/live`);
+    let currentPage = page;
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'auth', token, view: publicView ? 'public' : undefined, page: currentPage }));
+    socket.onmessage = (event) => onMessage(JSON.parse(event.data));
+    socket.onclose = () => onClose();
+
+    return {
+      close: () => {
+        socket.onclose = null;
+        socket.close();
+      },
+      showPage: (page) => {
+        currentPage = page;
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: 'page', page }));
+        }
+      }
+    };
+  },
+
+  // Admin-only operations
+  async adminGetContests(): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -152,18 +435,15 @@ export const secureApi = {
 
   async adminGetProblems(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/admin/problems`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -172,21 +452,37 @@ export const secureApi = {
     }
   },
 
-  async adminCreateContest(contestData: any): Promise<SecureApiResponse> {
+  async adminGetCheckers(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/checkers`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/admin/contests`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch checkers' };
+    }
+  },
+
+  async adminCreateContest(contestData: any): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(contestData)
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -197,19 +493,16 @@ export const secureApi = {
 
   async adminUpdateContestStatus(contestId: string, isActive: boolean): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/admin/contests/${contestId}/status`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests/${contestId}/status`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ is_active: isActive })
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -220,19 +513,16 @@ export const secureApi = {
 
   async adminUpdateContest(contestId: string, contestData: any): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/admin/contests/${contestId}`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests/${contestId}`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(contestData)
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -243,18 +533,15 @@ export const secureApi = {
 
   async adminDeleteContest(contestId: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/admin/contests/${contestId}`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests/${contestId}`, {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -265,19 +552,16 @@ export const secureApi = {
 
   async adminUpdateProblem(problemId: string, problemData: any): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/admin/problems/${problemId}`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems/${problemId}`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(problemData)
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -288,41 +572,176 @@ export const secureApi = {
 
   async adminDeleteProblem(problemId: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems/${problemId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/admin/problems/${problemId}`, {
-        method: 'DELETE',
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to delete problem' };
+    }
+  },
+
+  // Create a problem from a Kattis problem package
+  async adminImportProblem(problemPackage: File): Promise<SecureApiResponse> {
+    try {
+      const formData = new FormData();
+      formData.append('package', problemPackage);
+
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems/import`, {
+        method: 'POST',
+        body: formData
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to import problem' };
+    }
+  },
+
+  // Download a problem as a Kattis problem package; the zip comes back as a Blob
+  async adminExportProblem(problemId: string): Promise<SecureApiResponse<Blob>> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems/${problemId}/export`, {
+        method: 'GET'
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      if (!response.ok) {
+        const result = await response.json();
+        return { success: false, error: result.error || 'Failed to export problem' };
+      }
+      return { success: true, data: await response.blob() };
+    } catch (error) {
+      return { success: false, error: 'Failed to export problem' };
+    }
+  },
+
+  // Replace a problem's test cases with a zip of .in/.out pairs
+  async adminUploadTestData(problemId: string, archive: File): Promise<SecureApiResponse> {
+    try {
+      const formData = new FormData();
+      formData.append('archive', archive);
+
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems/${problemId}/test-data`, {
+        method: 'POST',
+        body: formData
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to upload test data' };
+    }
+  },
+
+  // Send a submission, a problem's submissions or a contest's submissions back through the judge
+  async adminRejudge(scope: 'submission' | 'problem' | 'contest', id: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/${scope}s/${id}/rejudge`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to delete problem' };
+      return { success: false, error: 'Failed to start rejudge' };
     }
   },
 
-  async adminCreateProblem(problemData: any): Promise<SecureApiResponse> {
+  async adminGetRejudge(rejudgeId: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/rejudges/${rejudgeId}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to fetch rejudge' };
+    }
+  },
+
+  // Reveal the next hidden result on a frozen scoreboard, or all of them at once
+  async adminUnfreezeContest(contestId: string, all = false): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests/${contestId}/unfreeze`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ all })
+      });
+      if (!response) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await fetch(`${BACKEND_URL}/api/admin/problems`, {
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to unfreeze scoreboard' };
+    }
+  },
+
+  async adminFinalizeRatings(contestId: string): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/contests/${contestId}/finalize-ratings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const result = await response.json();
+      return result;
+    } catch (error) {
+      return { success: false, error: 'Failed to finalize ratings' };
+    }
+  },
+
+  async adminCreateProblem(problemData: any): Promise<SecureApiResponse> {
+    try {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/admin/problems`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(problemData)
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -357,18 +776,15 @@ export const secureApi = {
   // Get user profile
   async getUserProfile(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/profile`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/profile`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -380,19 +796,16 @@ export const secureApi = {
   // Update user profile (own profile only)
   async updateUserProfile(profileData: any): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/profile`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/profile`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(profileData)
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -404,18 +817,15 @@ export const secureApi = {
   // Get user's contest participations
   async getUserParticipations(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/participations`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/participations`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -427,18 +837,15 @@ export const secureApi = {
   // Join a contest
   async joinContest(contestId: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/contests/${contestId}/join`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/contests/${contestId}/join`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
@@ -447,73 +854,63 @@ export const secureApi = {
     }
   },
 
-  // Get verification status
-  async getVerificationStatus(): Promise<SecureApiResponse> {
+  // Start the user's personal time window in a windowed contest
+  async startContestWindow(contestId: string): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/users/verification-status`, {
-        method: 'GET',
+      const response = await authorizedFetch(`${BACKEND_URL}/api/contests/${contestId}/start`, {
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to check verification status' };
+      return { success: false, error: 'Failed to start contest window' };
     }
   },
 
-  // Resend verification email
-  async resendVerificationEmail(): Promise<SecureApiResponse> {
+  // Get verification status
+  async getVerificationStatus(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/users/resend-verification`, {
-        method: 'POST',
+      const response = await authorizedFetch(`${BACKEND_URL}/api/users/verification-status`, {
+        method: 'GET',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
         }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to resend verification email' };
+      return { success: false, error: 'Failed to check verification status' };
     }
   },
 
-  // Save contest submission
-  async saveContestSubmission(submissionData: any): Promise<SecureApiResponse> {
+  // Resend verification email
+  async resendVerificationEmail(): Promise<SecureApiResponse> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const response = await fetch(`${BACKEND_URL}/api/submissions`, {
+      const response = await authorizedFetch(`${BACKEND_URL}/api/users/resend-verification`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${user.id}`,
           'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(submissionData)
+        }
       });
+      if (!response) {
+        return { success: false, error: 'Not authenticated' };
+      }
 
       const result = await response.json();
       return result;
     } catch (error) {
-      return { success: false, error: 'Failed to save submission' };
+      return { success: false, error: 'Failed to resend verification email' };
     }
   }
 }; 
\ No newline at end of file